@@ -0,0 +1,144 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WebSocket } from 'ws';
+import { createGameServer, GameServer } from './gameServer';
+import { ClientMessage, ServerMessage, decodeMessage, encodeMessage } from '../src/online/protocol';
+
+type MessageOfType<K extends ServerMessage['type']> = Extract<ServerMessage, { type: K }>;
+
+interface TestClient {
+  send: (message: ClientMessage) => void;
+  sendRaw: (data: string) => void;
+  next: <K extends ServerMessage['type']>(type: K) => Promise<MessageOfType<K>>;
+  close: () => void;
+}
+
+const MESSAGE_TIMEOUT_MS = 5000;
+
+let server: GameServer;
+
+before(async () => {
+  server = await createGameServer({ port: 0 });
+});
+
+after(() => server.close());
+
+// Buffers everything the server sends so a test can wait on the next message of a type
+function connect(): Promise<TestClient> {
+  const socket = new WebSocket(`ws://127.0.0.1:${server.port}`);
+  const inbox: ServerMessage[] = [];
+  let notify = () => {};
+
+  socket.on('message', data => {
+    const message = decodeMessage<ServerMessage>(data);
+    if (message) inbox.push(message);
+    notify();
+  });
+
+  const next = <K extends ServerMessage['type']>(type: K) => new Promise<MessageOfType<K>>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out waiting for ${type}`)), MESSAGE_TIMEOUT_MS);
+    const check = () => {
+      const index = inbox.findIndex(message => message.type === type);
+      if (index === -1) return;
+      clearTimeout(timer);
+      notify = () => {};
+      resolve(inbox.splice(index, 1)[0] as MessageOfType<K>);
+    };
+    notify = check;
+    check();
+  });
+
+  return new Promise((resolve, reject) => {
+    socket.once('error', reject);
+    socket.once('open', () => resolve({
+      send: message => socket.send(encodeMessage(message)),
+      sendRaw: data => socket.send(data),
+      next,
+      close: () => socket.close()
+    }));
+  });
+}
+
+const square = (name: string) => ({ row: 8 - Number(name[1]), col: name.charCodeAt(0) - 97 });
+
+const move = (from: string, to: string): ClientMessage => ({
+  type: 'move',
+  // The server only reads the coordinates, so the piece is left out
+  move: { from: square(from), to: square(to) } as Extract<ClientMessage, { type: 'move' }>['move']
+});
+
+test('two players share a room, a spectator watches and a seat can be reclaimed', async () => {
+  const white = await connect();
+  white.send({ type: 'createRoom' });
+  const created = await white.next('joined');
+  assert.equal(created.role, 'white');
+  await white.next('state');
+
+  const black = await connect();
+  black.send({ type: 'joinRoom', code: created.code.toLowerCase() });
+  const joined = await black.next('joined');
+  assert.equal(joined.role, 'black');
+  await black.next('state');
+
+  const spectator = await connect();
+  spectator.send({ type: 'joinRoom', code: created.code, asSpectator: true });
+  assert.equal((await spectator.next('joined')).role, 'spectator');
+  await spectator.next('state');
+
+  const plies: [ClientMessage, string][] = [
+    [move('e2', 'e4'), 'e4'],
+    [move('e7', 'e5'), 'e5'],
+    [move('g1', 'f3'), 'f3']
+  ];
+  for (const [index, [message, target]] of plies.entries()) {
+    (index % 2 === 0 ? white : black).send(message);
+    const [whiteState, blackState, spectatorState] = await Promise.all([
+      white.next('state'),
+      black.next('state'),
+      spectator.next('state')
+    ]);
+    const { row, col } = square(target);
+    assert.ok(whiteState.gameState.board[row][col], `a piece should stand on ${target}`);
+    assert.deepEqual(blackState.gameState.board, whiteState.gameState.board);
+    assert.deepEqual(spectatorState.gameState.board, whiteState.gameState.board);
+    assert.equal(blackState.gameState.currentPlayer, whiteState.gameState.currentPlayer);
+    // The generator would tell players every random event to come
+    [whiteState, blackState, spectatorState].forEach(({ gameState }) => {
+      assert.equal(gameState.seed, undefined);
+      assert.equal(gameState.rngState, undefined);
+    });
+  }
+
+  white.send(move('d2', 'd4'));
+  assert.equal((await white.next('error')).message, 'Not your turn');
+
+  black.close();
+  const returning = await connect();
+  returning.send({ type: 'rejoin', code: created.code, token: joined.token });
+  const rejoined = await returning.next('joined');
+  assert.equal(rejoined.role, 'black');
+  assert.equal(rejoined.token, joined.token);
+  const restored = await returning.next('state');
+  assert.equal(restored.actions.length, plies.length);
+
+  returning.send(move('b8', 'c6'));
+  const [afterRejoin, spectatorView] = await Promise.all([white.next('state'), spectator.next('state')]);
+  assert.ok(afterRejoin.gameState.board[square('c6').row][square('c6').col]);
+  assert.deepEqual(spectatorView.gameState.board, afterRejoin.gameState.board);
+
+  white.close();
+  returning.close();
+  spectator.close();
+});
+
+test('malformed messages are answered with an error instead of crashing the server', async () => {
+  const client = await connect();
+  client.sendRaw('{"type":"joinRoom"}');
+  assert.equal((await client.next('error')).message, 'Malformed message');
+  client.sendRaw('{"type":"move","move":{"from":{"row":6,"col":4}}}');
+  assert.equal((await client.next('error')).message, 'Malformed message');
+
+  client.send({ type: 'joinRoom', code: 'NOROOM' });
+  assert.match((await client.next('error')).message, /No room/);
+  client.close();
+});
@@ -0,0 +1,457 @@
+import { randomUUID } from 'node:crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+import { GameAction, GameState, InventoryRules, Move, PieceColor, PieceType, Position, RespawnRules } from '../src/types/chess';
+import {
+  createInitialGameState,
+  getPendingDecision,
+  isGameInProgress,
+  playEvacuation,
+  playMove,
+  playRespawn,
+  PendingDecision
+} from '../src/utils/gameLogic';
+import { getLegalMoves, getMoveOptions } from '../src/utils/chessLogic';
+// Aliased so the hooks lint rule does not mistake it for a React hook
+import {
+  usePowerUp as activatePowerUp,
+  getPowerUpMoves,
+  getHeldPowerUps,
+  discardPowerUp,
+  isValidInventoryRules
+} from '../src/utils/powerupLogic';
+import { getPowerUpDefinition } from '../src/utils/powerupRegistry';
+import { isValidRespawnRules } from '../src/utils/respawnLogic';
+import { getShrinkPattern } from '../src/utils/shrinkPatternRegistry';
+import {
+  ClientMessage,
+  ServerMessage,
+  OnlineRole,
+  encodeMessage,
+  decodeMessage,
+  toWireState,
+  toVisibleActions
+} from '../src/online/protocol';
+
+const INVITE_CODE_LENGTH = 6;
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+// Rooms nobody is connected to are dropped after this long
+const EMPTY_ROOM_TTL_MS = 10 * 60 * 1000;
+
+interface Seat {
+  token: string;
+  socket: WebSocket | null;
+}
+
+interface Room {
+  code: string;
+  gameState: GameState;
+  // Every action so far, so clients can save the game as a record
+  actions: GameAction[];
+  lastEvents: string[];
+  seats: Partial<Record<PieceColor, Seat>>;
+  spectators: Map<string, WebSocket | null>;
+  cleanupTimer: ReturnType<typeof setTimeout> | null;
+}
+
+interface Connection {
+  room: Room;
+  role: OnlineRole;
+  token: string;
+}
+
+export interface GameServerOptions {
+  port?: number;
+  host?: string;
+}
+
+export interface GameServer {
+  port: number;
+  close: () => Promise<void>;
+}
+
+export function createGameServer(options: GameServerOptions = {}): Promise<GameServer> {
+  const rooms = new Map<string, Room>();
+  const connections = new Map<WebSocket, Connection>();
+  const wss = new WebSocketServer({ port: options.port ?? 0, host: options.host ?? '127.0.0.1' });
+  let isClosing = false;
+
+  const send = (socket: WebSocket | null, message: ServerMessage) => {
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(encodeMessage(message));
+    }
+  };
+
+  const roomSockets = (room: Room): WebSocket[] => {
+    const seats = Object.values(room.seats).map(seat => seat?.socket ?? null);
+    return [...seats, ...room.spectators.values()].filter((socket): socket is WebSocket => socket !== null);
+  };
+
+  const broadcast = (room: Room, message: ServerMessage) => {
+    roomSockets(room).forEach(socket => send(socket, message));
+  };
+
+  const broadcastPresence = (room: Room) => {
+    broadcast(room, {
+      type: 'presence',
+      connected: {
+        white: !!room.seats.white?.socket,
+        black: !!room.seats.black?.socket
+      },
+      spectators: [...room.spectators.values()].filter(Boolean).length
+    });
+  };
+
+  const sendState = (room: Room, socket: WebSocket | null, events: string[] = []) => {
+    const viewer = (socket && connections.get(socket)?.role) ?? 'spectator';
+    send(socket, {
+      type: 'state',
+      gameState: toWireState(room.gameState, viewer),
+      events,
+      actions: toVisibleActions(room.actions, room.gameState, viewer)
+    });
+  };
+
+  const scheduleCleanup = (room: Room) => {
+    if (room.cleanupTimer) clearTimeout(room.cleanupTimer);
+    room.cleanupTimer = null;
+
+    if (!isClosing && roomSockets(room).length === 0) {
+      room.cleanupTimer = setTimeout(() => rooms.delete(room.code), EMPTY_ROOM_TTL_MS);
+    }
+  };
+
+  const attach = (socket: WebSocket, room: Room, role: OnlineRole, token: string) => {
+    connections.set(socket, { room, role, token });
+    send(socket, { type: 'joined', code: room.code, role, token });
+    sendState(room, socket, room.lastEvents);
+    broadcastPresence(room);
+    scheduleCleanup(room);
+  };
+
+  const createInviteCode = (): string => {
+    let code = '';
+    do {
+      code = Array.from({ length: INVITE_CODE_LENGTH }, () =>
+        INVITE_CODE_ALPHABET[Math.floor(Math.random() * INVITE_CODE_ALPHABET.length)]
+      ).join('');
+    } while (rooms.has(code));
+    return code;
+  };
+
+  const handleCreateRoom = (
+    socket: WebSocket,
+    inventory?: InventoryRules,
+    shrinkPattern?: string,
+    voidRespawn?: boolean,
+    respawnRules?: RespawnRules
+  ) => {
+    if (inventory && !isValidInventoryRules(inventory)) {
+      send(socket, { type: 'error', message: 'Invalid power-up inventory settings' });
+      return;
+    }
+    if (shrinkPattern !== undefined && !getShrinkPattern(shrinkPattern)) {
+      send(socket, { type: 'error', message: `Unknown shrink pattern ${shrinkPattern}` });
+      return;
+    }
+    if (respawnRules && !isValidRespawnRules(respawnRules)) {
+      send(socket, { type: 'error', message: 'Invalid respawn settings' });
+      return;
+    }
+
+    const room: Room = {
+      code: createInviteCode(),
+      gameState: createInitialGameState(undefined, inventory && {
+        slots: inventory.slots,
+        heldTurns: inventory.heldTurns,
+        hidden: inventory.hidden
+      }, shrinkPattern, voidRespawn === true, respawnRules && {
+        placement: respawnRules.placement,
+        draft: respawnRules.draft
+      }),
+      actions: [],
+      lastEvents: [],
+      seats: {},
+      spectators: new Map(),
+      cleanupTimer: null
+    };
+    rooms.set(room.code, room);
+
+    const token = randomUUID();
+    room.seats.white = { token, socket };
+    attach(socket, room, 'white', token);
+  };
+
+  const handleJoinRoom = (socket: WebSocket, code: string, asSpectator?: boolean) => {
+    const room = rooms.get(code.toUpperCase());
+    if (!room) {
+      send(socket, { type: 'error', message: `No room with code ${code}` });
+      return;
+    }
+
+    const token = randomUUID();
+    if (!asSpectator && !room.seats.black) {
+      room.seats.black = { token, socket };
+      attach(socket, room, 'black', token);
+      return;
+    }
+
+    // Both seats taken: late joiners watch instead
+    room.spectators.set(token, socket);
+    attach(socket, room, 'spectator', token);
+  };
+
+  const handleRejoin = (socket: WebSocket, code: string, token: string) => {
+    const room = rooms.get(code.toUpperCase());
+    if (!room) {
+      send(socket, { type: 'error', message: `No room with code ${code}` });
+      return;
+    }
+
+    const seatColor = (['white', 'black'] as PieceColor[]).find(color => room.seats[color]?.token === token);
+    if (seatColor) {
+      const seat = room.seats[seatColor]!;
+      // A newer socket for the same seat replaces the stale one
+      if (seat.socket && seat.socket !== socket) {
+        connections.delete(seat.socket);
+        seat.socket.close();
+      }
+      seat.socket = socket;
+      attach(socket, room, seatColor, token);
+      return;
+    }
+
+    if (room.spectators.has(token)) {
+      room.spectators.set(token, socket);
+      attach(socket, room, 'spectator', token);
+      return;
+    }
+
+    send(socket, { type: 'error', message: 'Unknown session token' });
+  };
+
+  // Returns the mover's connection when it may act right now, otherwise reports why not.
+  // While a caught king waits to flee or a returning piece waits to be placed, only
+  // that decision, by its owner, may act.
+  const getActingConnection = (
+    socket: WebSocket,
+    decision: PendingDecision['kind'] | null = null
+  ): (Connection & { role: PieceColor }) | null => {
+    const connection = connections.get(socket);
+    if (!connection) {
+      send(socket, { type: 'error', message: 'Join a room first' });
+      return null;
+    }
+
+    const { room, role } = connection;
+    if (role === 'spectator') {
+      send(socket, { type: 'error', message: 'Spectators cannot move' });
+      return null;
+    }
+    if (!isGameInProgress(room.gameState)) {
+      send(socket, { type: 'error', message: 'The game is over' });
+      return null;
+    }
+    const pending = getPendingDecision(room.gameState);
+    if (pending && pending.kind !== decision) {
+      send(socket, {
+        type: 'error',
+        message: pending.kind === 'evacuation' ? 'A king caught by the shrink must flee first' : 'A returning piece must be placed first'
+      });
+      return null;
+    }
+    if ((pending?.color ?? room.gameState.currentPlayer) !== role || (decision && !pending)) {
+      const waiting = { evacuation: 'Your king is not waiting to flee', respawn: 'You have no piece waiting to return' };
+      send(socket, { type: 'error', message: decision ? waiting[decision] : 'Not your turn' });
+      return null;
+    }
+    return { ...connection, role };
+  };
+
+  const updateRoom = (room: Room, action: GameAction, gameState: GameState, events: string[]) => {
+    room.actions = [...room.actions, action];
+    room.gameState = gameState;
+    room.lastEvents = events;
+    roomSockets(room).forEach(roomSocket => sendState(room, roomSocket, events));
+  };
+
+  const handleMove = (socket: WebSocket, requested: Move) => {
+    const connection = getActingConnection(socket);
+    if (!connection) return;
+
+    const { room, role } = connection;
+    const { gameState } = room;
+
+    // Never trust the client's copy of the move, only its coordinates, promotion choice and power-up use
+    const candidates = requested.usedPowerUp
+      ? getPowerUpMoves(gameState, role)
+      : getLegalMoves(gameState.board, role, gameState.shrunkSquares, getMoveOptions(gameState));
+    const move = candidates.find(candidate =>
+      candidate.from.row === requested.from?.row && candidate.from.col === requested.from?.col &&
+      candidate.to.row === requested.to?.row && candidate.to.col === requested.to?.col &&
+      (candidate.promotion ?? null) === (requested.promotion ?? null)
+    );
+    if (!move) {
+      send(socket, { type: 'error', message: 'Illegal move' });
+      return;
+    }
+
+    const { newGameState, events } = playMove(gameState, move);
+    updateRoom(room, { type: 'move', move }, newGameState, events);
+  };
+
+  const handleUsePowerUp = (socket: WebSocket, powerUpType: string, target?: Position, pieceType?: PieceType) => {
+    const connection = getActingConnection(socket);
+    if (!connection) return;
+
+    const { room, role } = connection;
+    if (!getHeldPowerUps(room.gameState, role).some(powerUp => powerUp.type === powerUpType)) {
+      send(socket, { type: 'error', message: 'You do not hold that power-up' });
+      return;
+    }
+    if (getPowerUpDefinition(powerUpType)?.targeting === 'move') {
+      send(socket, { type: 'error', message: `The ${powerUpType} power-up is used by moving a piece` });
+      return;
+    }
+
+    const newGameState = activatePowerUp(room.gameState, role, powerUpType, target, pieceType);
+    if (newGameState === room.gameState) {
+      send(socket, { type: 'error', message: `The ${powerUpType} power-up cannot be used there` });
+      return;
+    }
+
+    // Only a power-up that offers a piece choice records one
+    const choice = pieceType && getPowerUpDefinition(powerUpType)?.getPieceChoices ? { pieceType } : {};
+    updateRoom(
+      room,
+      target
+        ? { type: 'usePowerUp', color: role, powerUpType, target: { row: target.row, col: target.col }, ...choice }
+        : { type: 'usePowerUp', color: role, powerUpType },
+      newGameState,
+      [`${powerUpType.toUpperCase()} ACTIVATED!`]
+    );
+  };
+
+  const handleDiscardPowerUp = (socket: WebSocket, powerUpType: string) => {
+    const connection = getActingConnection(socket);
+    if (!connection) return;
+
+    const { room, role } = connection;
+    const newGameState = discardPowerUp(room.gameState, role, powerUpType);
+    if (newGameState === room.gameState) {
+      send(socket, { type: 'error', message: 'You do not hold that power-up' });
+      return;
+    }
+
+    updateRoom(room, { type: 'discardPowerUp', color: role, powerUpType }, newGameState, ['POWER-UP DISCARDED!']);
+  };
+
+  const handleEvacuate = (socket: WebSocket, to: Position) => {
+    const connection = getActingConnection(socket, 'evacuation');
+    if (!connection) return;
+
+    const { room, role } = connection;
+    const newGameState = playEvacuation(room.gameState, role, { row: to?.row, col: to?.col });
+    if (newGameState === room.gameState) {
+      send(socket, { type: 'error', message: 'Your king cannot flee there' });
+      return;
+    }
+
+    updateRoom(room, { type: 'evacuate', color: role, to: { row: to.row, col: to.col } }, newGameState, ['KING FLED!']);
+  };
+
+  const handlePlaceRespawn = (socket: WebSocket, pieceType: PieceType, to?: Position) => {
+    const connection = getActingConnection(socket, 'respawn');
+    if (!connection) return;
+
+    const { room, role } = connection;
+    const square = to && { row: to.row, col: to.col };
+    const newGameState = playRespawn(room.gameState, role, pieceType, square);
+    if (newGameState === room.gameState) {
+      send(socket, { type: 'error', message: 'That piece cannot return there' });
+      return;
+    }
+
+    updateRoom(
+      room,
+      square ? { type: 'placeRespawn', color: role, pieceType, to: square } : { type: 'placeRespawn', color: role, pieceType },
+      newGameState,
+      ['PIECE RESPAWNED!']
+    );
+  };
+
+  const handleMessage = (socket: WebSocket, message: ClientMessage) => {
+    switch (message.type) {
+      case 'createRoom':
+        return handleCreateRoom(socket, message.inventory, message.shrinkPattern, message.voidRespawn, message.respawnRules);
+      case 'joinRoom':
+        return handleJoinRoom(socket, message.code, message.asSpectator);
+      case 'rejoin':
+        return handleRejoin(socket, message.code, message.token);
+      case 'move':
+        return handleMove(socket, message.move);
+      case 'usePowerUp':
+        return handleUsePowerUp(socket, message.powerUpType, message.target, message.pieceType);
+      case 'discardPowerUp':
+        return handleDiscardPowerUp(socket, message.powerUpType);
+      case 'evacuate':
+        return handleEvacuate(socket, message.to);
+      case 'placeRespawn':
+        return handlePlaceRespawn(socket, message.pieceType, message.to);
+      default:
+        send(socket, { type: 'error', message: 'Unknown message' });
+    }
+  };
+
+  const handleClose = (socket: WebSocket) => {
+    const connection = connections.get(socket);
+    if (!connection) return;
+    connections.delete(socket);
+
+    const { room, role, token } = connection;
+    if (role === 'spectator') {
+      if (room.spectators.get(token) === socket) room.spectators.set(token, null);
+    } else if (room.seats[role]?.socket === socket) {
+      // Keep the seat and its token so the player can reconnect
+      room.seats[role]!.socket = null;
+    }
+
+    broadcastPresence(room);
+    scheduleCleanup(room);
+  };
+
+  wss.on('connection', (socket) => {
+    socket.on('message', (data) => {
+      const message = decodeMessage<ClientMessage>(data);
+      if (!message) {
+        send(socket, { type: 'error', message: 'Malformed message' });
+        return;
+      }
+      try {
+        handleMessage(socket, message);
+      } catch (error) {
+        // One bad request must never take every other room down with it
+        console.error('Failed to handle message:', error);
+        send(socket, { type: 'error', message: 'Server error' });
+      }
+    });
+    socket.on('close', () => handleClose(socket));
+  });
+
+  const close = () => new Promise<void>((resolve, reject) => {
+    isClosing = true;
+    rooms.forEach(room => {
+      if (room.cleanupTimer) clearTimeout(room.cleanupTimer);
+    });
+    wss.clients.forEach(client => client.terminate());
+    wss.close(error => (error ? reject(error) : resolve()));
+  });
+
+  return new Promise((resolve, reject) => {
+    wss.once('error', reject);
+    wss.once('listening', () => {
+      const address = wss.address();
+      const port = typeof address === 'object' && address ? address.port : options.port ?? 0;
+      resolve({ port, close });
+    });
+  });
+}
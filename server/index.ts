@@ -0,0 +1,11 @@
+import { createGameServer } from './gameServer';
+
+const port = Number(process.env.PORT) || 8787;
+const host = process.env.HOST || '0.0.0.0';
+
+createGameServer({ port, host })
+  .then(server => console.log(`Battle Royale Chess server listening on ws://${host}:${server.port}`))
+  .catch(error => {
+    console.error('Failed to start game server:', error);
+    process.exit(1);
+  });
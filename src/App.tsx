@@ -1,23 +1,85 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { ChessBoard } from './components/ChessBoard';
 import { GameInfo } from './components/GameInfo';
 import { GameRulesLegend } from './components/GameRulesLegend';
-import { GameState, Position, Move, TriviaTile } from './types/chess';
+import {
+  GameState,
+  Position,
+  Move,
+  PowerUp,
+  TriviaTile,
+  AISettings,
+  GameSetup,
+  PieceColor,
+  GameAction,
+  PlayerController,
+  PieceType
+} from './types/chess';
 import {
   createInitialGameState,
-  makeMove,
-  checkGameOver,
-  getComputerMove,
-  processGameMechanics,
-  processPostMoveEffects
+  playMove,
+  playEvacuation,
+  playRespawn,
+  getActingColor,
+  getPendingDecision,
+  grantExtraMove,
+  passTurn,
+  getPlayerLabel,
+  isGameInProgress,
+  DEFAULT_GAME_SETUP
 } from './utils/gameLogic';
-import { generateShrinkBlocks } from './utils/shrinkLogic';
-import { getLegalMoves, isInCheck } from './utils/chessLogic';
-import { getPowerUpDescription, collectPowerUp, usePowerUp } from './utils/powerupLogic';
+import { generateShrinkBlocks, getPendingEvacuation } from './utils/shrinkLogic';
+import { getPendingRespawn } from './utils/respawnLogic';
+import { getLegalMoves, getMoveOptions, isInCheck, formatMove, getSquareName } from './utils/chessLogic';
+import { createAIClient, AIClient } from './utils/aiClient';
+import { SearchResult, isMateScore } from './utils/searchLogic';
+import { ComputerAnalysis, chooseComputerDiscard, getPowerUpMoveMessage } from './utils/aiPowerUpLogic';
+// Aliased so the hooks lint rule does not mistake it for a React hook
+import {
+  getPowerUpDescription,
+  usePowerUp as activatePowerUp,
+  discardPowerUp,
+  getBlockedPickup,
+  getPowerUpMoves
+} from './utils/powerupLogic';
+import { getPowerUpDefinition } from './utils/powerupRegistry';
+import { exportGameRecord, importGameRecord } from './utils/recordLogic';
+import { parsePosition } from './utils/positionLogic';
+import { createRandom } from './utils/randomLogic';
 import { TriviaModal } from './components/TriviaModal';
+import { PromotionModal } from './components/PromotionModal';
+import { ChessPiece } from './components/ChessPiece';
+import { PickupChoiceModal } from './components/PickupChoiceModal';
+import { PowerUpInventory } from './components/PowerUpInventory';
+import { AISettingsModal } from './components/AISettingsModal';
+import { GameSetupModal } from './components/GameSetupModal';
+import { loadAISettings, saveAISettings, DIFFICULTY_PROFILES, PERSONALITY_PROFILES } from './utils/aiSettings';
 import { fetchTriviaQuestion } from './utils/triviaLogic';
+import { createOnlineClient, OnlineClient, OnlineSession } from './online/onlineClient';
+import { getOnlinePlayers } from './online/protocol';
 import { fetchGif } from './utils/giphyLogic';
-import { RotateCcw, Play, Zap, Shield, Bolt, Target, ArrowRight } from 'lucide-react';
+import { RotateCcw, Play, Zap, Cpu, Globe, Download, Upload } from 'lucide-react';
+
+const GAME_SERVER_URL = import.meta.env.VITE_GAME_SERVER_URL ?? `ws://${window.location.hostname}:8787`;
+
+// Search scores are from the mover's side; show them in pawns from White's side
+function formatEvaluation(score: number, color: PieceColor): string {
+  const whiteScore = color === 'white' ? score : -score;
+  if (isMateScore(whiteScore)) return whiteScore > 0 ? 'White mates' : 'Black mates';
+  const pawns = whiteScore / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(2)}`;
+}
+
+const RECORD_PLAYER_NAMES: Record<PlayerController, string> = {
+  human: 'Player',
+  computer: 'Computer',
+  remote: 'Online player'
+};
+
+function formatRecordDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`;
+}
 
 function App() {
   const [gameState, setGameState] = useState<GameState>(createInitialGameState);
@@ -32,8 +94,30 @@ function App() {
   const [lastShownMessages, setLastShownMessages] = useState<Set<string>>(new Set());
   const [isTriviaModalOpen, setIsTriviaModalOpen] = useState(false);
   const [triviaTile, setTriviaTile] = useState<TriviaTile | null>(null);
-  const [extraMove, setExtraMove] = useState(false);
+  const [triviaPlayer, setTriviaPlayer] = useState<PieceColor | null>(null);
   const [gifUrl, setGifUrl] = useState<string | null>(null);
+  const [pendingPromotion, setPendingPromotion] = useState<Move[] | null>(null);
+  const [pendingPickup, setPendingPickup] = useState<{ move: Move; powerUp: PowerUp } | null>(null);
+  // Power-up waiting for the player to pick its target on the board
+  const [targetingPowerUp, setTargetingPowerUp] = useState<string | null>(null);
+  const [pendingPowerUpMove, setPendingPowerUpMove] = useState<Move | null>(null);
+  const [respawnType, setRespawnType] = useState<PieceType | null>(null);
+  // The captured piece a power-up like Revive brings back, once picked
+  const [targetPieceType, setTargetPieceType] = useState<PieceType | null>(null);
+  const [aiSettings, setAISettings] = useState<AISettings>(loadAISettings);
+  const [showAISettings, setShowAISettings] = useState(false);
+  const [lastAnalysis, setLastAnalysis] = useState<{ result: SearchResult; color: PieceColor } | null>(null);
+  const [gameSetup, setGameSetup] = useState<GameSetup>(DEFAULT_GAME_SETUP);
+  const [showGameSetup, setShowGameSetup] = useState(true);
+  const aiClientRef = useRef<AIClient | null>(null);
+  const onlineClientRef = useRef<OnlineClient | null>(null);
+  const recordInputRef = useRef<HTMLInputElement | null>(null);
+  const [gameActions, setGameActions] = useState<GameAction[]>([]);
+  const [recordError, setRecordError] = useState<string | null>(null);
+  const [onlineSession, setOnlineSession] = useState<OnlineSession | null>(null);
+  const [onlinePresence, setOnlinePresence] = useState<{ connected: Record<PieceColor, boolean>; spectators: number } | null>(null);
+  const [isOnlineConnected, setIsOnlineConnected] = useState(false);
+  const [onlineError, setOnlineError] = useState<string | null>(null);
 
 
   const triggerScreenShake = useCallback(() => {
@@ -99,46 +183,374 @@ function App() {
   }, [messageQueue, gifUrl]);
 
   useEffect(() => {
-    if (gameState.currentPlayer === 'black' && gameState.gamePhase === 'playing') {
-      const timer = setTimeout(() => {
-        const computerMove = getComputerMove(gameState);
+    const aiClient = createAIClient();
+    aiClientRef.current = aiClient;
+    return () => aiClient.dispose();
+  }, []);
+
+  // Online games are driven by the server: we only send moves and render the states it pushes
+  const recordAction = useCallback((action: GameAction) => {
+    setGameActions(prev => [...prev, action]);
+  }, []);
+
+  const showEventMessageRef = useRef(showEventMessage);
+  showEventMessageRef.current = showEventMessage;
+
+  useEffect(() => {
+    const online = gameSetup.online;
+    if (!online) return;
+
+    const client = createOnlineClient(GAME_SERVER_URL, {
+      onJoined: (session) => {
+        setOnlineSession(session);
+        setOnlineError(null);
+        setGameSetup(prev => ({ ...prev, players: getOnlinePlayers(session.role) }));
+      },
+      onState: (state, events, actions) => {
+        setGameState(state);
+        setGameActions(actions);
+        setSelectedSquare(null);
+        setValidMoves([]);
+        events.forEach(event => showEventMessageRef.current(event));
+      },
+      onPresence: (connected, spectators) => setOnlinePresence({ connected, spectators }),
+      onConnectionChange: setIsOnlineConnected,
+      onError: setOnlineError
+    });
+    onlineClientRef.current = client;
+
+    if (online.mode === 'create') {
+      client.createRoom(online.inventory, online.shrinkPattern, online.voidRespawn, online.respawnRules);
+    } else {
+      client.joinRoom(online.code, online.asSpectator);
+    }
+
+    return () => {
+      client.close();
+      onlineClientRef.current = null;
+      setOnlineSession(null);
+      setOnlinePresence(null);
+      setOnlineError(null);
+    };
+  }, [gameSetup.online]);
+
+  // A king caught by a shrink, then a returning piece, is seen to by its owner before
+  // anyone else acts
+  const pendingEvacuation = getPendingEvacuation(gameState);
+  const pendingRespawn = getPendingRespawn(gameState);
+  const actingColor = getActingColor(gameState);
+  // In home placement the returning piece's square is picked once its type is known
+  const respawnChoice = pendingRespawn?.choices.length === 1
+    ? pendingRespawn.choices[0]
+    : pendingRespawn?.choices.find(choice => choice.type === respawnType);
+  const respawnSquares = gameState.respawnRules.placement === 'home' ? respawnChoice?.squares : undefined;
+  const isComputerTurn = gameSetup.players[actingColor] === 'computer';
+  const isHumanTurn = gameSetup.players[actingColor] === 'human';
+
+  useEffect(() => {
+    // Hold the computer back while a trivia reward is being resolved
+    if (isComputerTurn && isGameInProgress(gameState) && !showGameSetup && !isTriviaModalOpen) {
+      let cancelled = false;
+      const mover = getActingColor(gameState);
+      
+      const timer = setTimeout(async () => {
+        let analysis: ComputerAnalysis | null = null;
+        try {
+          analysis = await aiClientRef.current?.search(gameState, aiSettings) ?? null;
+        } catch (error) {
+          console.error('Computer search failed:', error);
+        }
+        
+        // The game moved on (reset, forced turn) while the engine was thinking
+        if (cancelled) return;
+        
+        const moverLabel = getPlayerLabel(mover, gameSetup.players).toUpperCase();
+        
+        const evacuation = analysis?.evacuation;
+        if (evacuation) {
+          recordAction({ type: 'evacuate', color: mover, to: evacuation });
+          showEventMessage(`${moverLabel} KING FLED TO ${getSquareName(evacuation).toUpperCase()}!`);
+          setGameState(playEvacuation(gameState, mover, evacuation));
+          return;
+        }
+
+        const respawn = analysis?.respawn;
+        if (respawn) {
+          const respawnedState = playRespawn(gameState, mover, respawn.pieceType, respawn.to);
+          recordAction(respawn.to
+            ? { type: 'placeRespawn', color: mover, pieceType: respawn.pieceType, to: respawn.to }
+            : { type: 'placeRespawn', color: mover, pieceType: respawn.pieceType });
+          showEventMessage(`${moverLabel} BROUGHT BACK A ${respawn.pieceType.toUpperCase()}!`);
+          setGameState(respawnedState);
+          return;
+        }
+        
+        // Fire the chosen power-up first; the next pass of this effect picks the move
+        const powerUp = analysis?.powerUp;
+        if (powerUp) {
+          const poweredState = activatePowerUp(gameState, mover, powerUp.powerUpType, powerUp.target, powerUp.pieceType);
+          if (poweredState !== gameState) {
+            recordAction(powerUp.target
+              ? {
+                type: 'usePowerUp',
+                color: mover,
+                powerUpType: powerUp.powerUpType,
+                target: powerUp.target,
+                ...(powerUp.pieceType ? { pieceType: powerUp.pieceType } : {})
+              }
+              : { type: 'usePowerUp', color: mover, powerUpType: powerUp.powerUpType });
+            showEventMessage(`${moverLabel} ${powerUp.message}!`);
+            setGameState(poweredState);
+            return;
+          }
+        }
+        
+        // A king or a returning piece waiting on the computer cannot be settled by a move
+        if (!analysis?.move && getPendingDecision(gameState)) {
+          showEventMessage(`${moverLabel} COULD NOT DECIDE!`);
+          return;
+        }
+        
+        // A failed or empty search still plays some legal move; only a side without one passes.
+        // Like the computer's blunders it comes from the game's generator without advancing it.
+        const legalMoves = getLegalMoves(gameState.board, mover, gameState.shrunkSquares, getMoveOptions(gameState));
+        const computerMove = analysis?.move ??
+          (legalMoves.length > 0 ? createRandom(gameState.rngState + gameState.turnCount).pick(legalMoves) : null);
         if (computerMove) {
-          const newGameState = makeMove(gameState, computerMove);
-          const checkedGameState = checkGameOver(newGameState);
+          if (computerMove.usedPowerUp) {
+            showEventMessage(`${moverLabel} ${getPowerUpMoveMessage(computerMove)}!`);
+          }
+          if (analysis?.move) {
+            setLastAnalysis({ result: analysis, color: mover });
+          }
           
-          const processedState = processGameMechanics(checkedGameState);
+          // A full inventory makes room for the power-up the move lands on
+          const discardType = chooseComputerDiscard(gameState, computerMove);
+          if (discardType) {
+            recordAction({ type: 'discardPowerUp', color: mover, powerUpType: discardType });
+          }
+          const startState = discardType ? discardPowerUp(gameState, mover, discardType) : gameState;
           
-          const { newGameState: finalState, events } = processPostMoveEffects(processedState, triggerScreenShake);
+          const { newGameState: finalState, events } = playMove(startState, computerMove, triggerScreenShake);
+          recordAction({ type: 'move', move: computerMove });
           
           events.forEach(event => showEventMessage(event));
           
-          showEventMessage("YOUR TURN!");
+          if (gameSetup.players[finalState.currentPlayer] === 'human') {
+            showEventMessage(gameSetup.players[mover] === 'computer' && gameSetup.players.white !== gameSetup.players.black
+              ? "YOUR TURN!"
+              : `${finalState.currentPlayer.toUpperCase()} TO MOVE!`);
+          }
           
           setGameState(finalState);
         } else {
-          console.log('No valid computer move, switching to white player');
-          setGameState(prevState => ({
-            ...prevState,
-            currentPlayer: 'white'
-          }));
+          recordAction({ type: 'pass', color: mover });
+          setGameState(prevState => passTurn(prevState, mover));
         }
       }, 1500);
 
-      return () => clearTimeout(timer);
+      return () => {
+        cancelled = true;
+        clearTimeout(timer);
+        aiClientRef.current?.cancel();
+      };
+    }
+  }, [gameState, aiSettings, gameSetup, isComputerTurn, showGameSetup, isTriviaModalOpen, recordAction]);
+
+  // `discardType` is the held power-up given up to pick up the one on the target square
+  const commitPlayerMove = useCallback((move: Move, discardType?: string) => {
+    const mover = move.piece.color;
+    if (onlineClientRef.current) {
+      if (discardType) onlineClientRef.current.discardPowerUp(discardType);
+      onlineClientRef.current.sendMove(move);
+      return;
+    }
+
+    if (discardType) {
+      recordAction({ type: 'discardPowerUp', color: mover, powerUpType: discardType });
+    }
+    const startState = discardType ? discardPowerUp(gameState, mover, discardType) : gameState;
+
+    const powerUpOnSquare = startState.powerUps.find(
+      p => p.position.row === move.to.row && p.position.col === move.to.col
+    );
+
+    const triviaTileOnSquare = startState.triviaTiles.find(
+      t => t.position.row === move.to.row && t.position.col === move.to.col
+    );
+    
+    if (powerUpOnSquare && !getBlockedPickup(startState, move)) {
+      const description = getPowerUpDescription(powerUpOnSquare.type);
+      showEventMessage(description);
+      setShowPowerupInstructions(description);
+      
+      setTimeout(() => setShowPowerupInstructions(null), 4000);
+    }
+
+    if (triviaTileOnSquare) {
+      fetchTriviaQuestion(move.to).then(question => {
+        if (question) {
+          setTriviaTile(question);
+          setTriviaPlayer(mover);
+          setIsTriviaModalOpen(true);
+        }
+      });
+    }
+    
+    const { newGameState: finalState, events } = playMove(startState, move, triggerScreenShake);
+    recordAction({ type: 'move', move });
+    
+    events.forEach(event => showEventMessage(event));
+    
+    setGameState(finalState);
+  }, [gameState, showEventMessage, triggerScreenShake, recordAction]);
+
+  // With a full inventory the player first decides what to do about the power-up on the square
+  const handlePlayerMove = useCallback((move: Move) => {
+    const powerUp = getBlockedPickup(gameState, move);
+    if (powerUp) {
+      setPendingPickup({ move, powerUp });
+      return;
+    }
+    commitPlayerMove(move);
+  }, [gameState, commitPlayerMove]);
+
+  const handlePickupChoice = useCallback((discardType: string | null) => {
+    if (!pendingPickup) return;
+    setPendingPickup(null);
+    commitPlayerMove(pendingPickup.move, discardType ?? undefined);
+  }, [pendingPickup, commitPlayerMove]);
+
+  const discardPlayerPowerUp = useCallback((color: PieceColor, powerUpType: string) => {
+    if (onlineClientRef.current) {
+      onlineClientRef.current.discardPowerUp(powerUpType);
+      return;
+    }
+    const newGameState = discardPowerUp(gameState, color, powerUpType);
+    if (newGameState === gameState) return;
+    recordAction({ type: 'discardPowerUp', color, powerUpType });
+    setGameState(newGameState);
+    showEventMessage(`${powerUpType.toUpperCase()} DISCARDED!`);
+  }, [gameState, recordAction, showEventMessage]);
+
+  const activatePlayerPowerUp = useCallback((color: PieceColor, powerUpType: string, target?: Position, pieceType?: PieceType) => {
+    if (onlineClientRef.current) {
+      onlineClientRef.current.usePowerUp(powerUpType, target, pieceType);
+      return;
+    }
+    const newGameState = activatePowerUp(gameState, color, powerUpType, target, pieceType);
+    if (newGameState === gameState) return;
+    recordAction(target
+      ? { type: 'usePowerUp', color, powerUpType, target, ...(pieceType ? { pieceType } : {}) }
+      : { type: 'usePowerUp', color, powerUpType });
+    setGameState(newGameState);
+    showEventMessage(`${powerUpType.toUpperCase()} ACTIVATED!`);
+  }, [gameState, recordAction, showEventMessage]);
+
+  // Targeted power-ups are spent only once a target is chosen. With a piece to pick
+  // first, its squares light up once the piece is known.
+  const selectPowerUp = useCallback((color: PieceColor, powerUpType: string) => {
+    const definition = getPowerUpDefinition(powerUpType);
+    if (definition && definition.targeting !== 'none') {
+      const choices = definition.getPieceChoices?.(gameState, color);
+      const pieceType = choices?.length === 1 ? choices[0].type : undefined;
+      setTargetingPowerUp(powerUpType);
+      setTargetPieceType(pieceType ?? null);
+      setSelectedSquare(null);
+      setValidMoves(!choices || pieceType ? definition.getTargets?.(gameState, color, pieceType) ?? [] : []);
+      return;
     }
-  }, [gameState]);
+    activatePlayerPowerUp(color, powerUpType);
+  }, [gameState, activatePlayerPowerUp]);
+
+  const chooseTargetPieceType = useCallback((pieceType: PieceType) => {
+    const definition = targetingPowerUp ? getPowerUpDefinition(targetingPowerUp) : undefined;
+    setTargetPieceType(pieceType);
+    setValidMoves(definition?.getTargets?.(gameState, gameState.currentPlayer, pieceType) ?? []);
+  }, [gameState, targetingPowerUp]);
+
+  const evacuatePlayerKing = useCallback((to: Position) => {
+    if (onlineClientRef.current) {
+      onlineClientRef.current.evacuate(to);
+      return;
+    }
+    const color = getPendingEvacuation(gameState)?.color;
+    if (!color) return;
+    const newGameState = playEvacuation(gameState, color, to);
+    if (newGameState === gameState) return;
+    recordAction({ type: 'evacuate', color, to });
+    setGameState(newGameState);
+    showEventMessage(`KING FLED TO ${getSquareName(to).toUpperCase()}!`);
+  }, [gameState, recordAction, showEventMessage]);
+
+  const placePlayerRespawn = useCallback((pieceType: PieceType, to?: Position) => {
+    setRespawnType(null);
+    if (onlineClientRef.current) {
+      onlineClientRef.current.placeRespawn(pieceType, to);
+      return;
+    }
+    const color = gameState.pendingRespawn?.piece.color;
+    if (!color) return;
+    const newGameState = playRespawn(gameState, color, pieceType, to);
+    if (newGameState === gameState) return;
+    recordAction(to ? { type: 'placeRespawn', color, pieceType, to } : { type: 'placeRespawn', color, pieceType });
+    setGameState(newGameState);
+    showEventMessage(`${pieceType.toUpperCase()} RESPAWNED!`);
+  }, [gameState, recordAction, showEventMessage]);
+
+  // Picking a type either places the piece at once (random squares) or moves on to
+  // picking its square
+  const chooseRespawnType = useCallback((pieceType: PieceType) => {
+    if (gameState.respawnRules.placement === 'home') {
+      setRespawnType(pieceType);
+      return;
+    }
+    placePlayerRespawn(pieceType);
+  }, [gameState.respawnRules.placement, placePlayerRespawn]);
 
   const handleSquareClick = useCallback((position: Position) => {
-    if (gameState.gamePhase !== 'playing' || (gameState.currentPlayer !== 'white' && !extraMove)) return;
+    if (!isGameInProgress(gameState) || !isHumanTurn || pendingPowerUpMove) return;
+
+    // Nothing else can be done until the caught king has been led to an escape square
+    const evacuation = getPendingEvacuation(gameState);
+    if (evacuation) {
+      if (evacuation.squares.some(square => square.row === position.row && square.col === position.col)) {
+        evacuatePlayerKing(position);
+      }
+      return;
+    }
+
+    // Likewise for a returning piece, whose square is clicked once its type is chosen
+    if (gameState.pendingRespawn) {
+      if (respawnChoice && respawnSquares?.some(square => square.row === position.row && square.col === position.col)) {
+        placePlayerRespawn(respawnChoice.type, position);
+      }
+      return;
+    }
 
     const piece = gameState.board[position.row][position.col];
     
-    const currentPlayer = 'white';
+    const currentPlayer = gameState.currentPlayer;
+    const targeting = targetingPowerUp ? getPowerUpDefinition(targetingPowerUp) : undefined;
+    // Targeted power-ups like Shield and Trap go on whichever highlighted square is clicked
+    if (targetingPowerUp && targeting?.getTargets) {
+      if (validMoves.some(square => square.row === position.row && square.col === position.col)) {
+        setTargetingPowerUp(null);
+        setTargetPieceType(null);
+        setValidMoves([]);
+        activatePlayerPowerUp(currentPlayer, targetingPowerUp, position, targetPieceType ?? undefined);
+      }
+      return;
+    }
+    // While targeting a Teleport or Swap the board offers its moves instead of ordinary ones
+    const availableMoves = targeting?.targeting === 'move'
+      ? getPowerUpMoves(gameState, currentPlayer)
+      : getLegalMoves(gameState.board, currentPlayer, gameState.shrunkSquares, getMoveOptions(gameState));
 
     if (!selectedSquare) {
       if (piece && piece.color === currentPlayer) {
         setSelectedSquare(position);
-        const moves = getLegalMoves(gameState.board, currentPlayer, gameState.shrunkSquares)
+        const moves = availableMoves
           .filter(move => move.from.row === position.row && move.from.col === position.col)
           .map(move => move.to);
         setValidMoves(moves);
@@ -157,68 +569,26 @@ function App() {
     );
 
     if (isValidMoveSquare) {
-      const selectedPiece = gameState.board[selectedSquare.row][selectedSquare.col];
-      if (selectedPiece) {
-        const powerUpOnSquare = gameState.powerUps.find(
-          p => p.position.row === position.row && p.position.col === position.col
-        );
-
-        const triviaTileOnSquare = gameState.triviaTiles.find(
-            t => t.position.row === position.row && t.position.col === position.col
+      const candidateMoves = availableMoves
+        .filter(move =>
+          move.from.row === selectedSquare.row && move.from.col === selectedSquare.col &&
+          move.to.row === position.row && move.to.col === position.col
         );
 
-        const move: Move = {
-          from: selectedSquare,
-          to: position,
-          piece: selectedPiece,
-          captured: piece || undefined
-        };
-        
-        let newGameState;
-
-        // If it's an extra move, we don't switch players
-        if (extraMove) {
-            newGameState = makeMove({ ...gameState, currentPlayer: 'white' }, move);
-            newGameState.currentPlayer = 'white';
-            setExtraMove(false);
-        } else {
-            newGameState = makeMove(gameState, move);
-        }
-        
-        if (powerUpOnSquare) {
-          newGameState = collectPowerUp(newGameState, position, 'white');
-          const description = getPowerUpDescription(powerUpOnSquare.type);
-          showEventMessage(description);
-          setShowPowerupInstructions(description);
-          
-          setTimeout(() => setShowPowerupInstructions(null), 4000);
-        }
-
-        if (triviaTileOnSquare) {
-            fetchTriviaQuestion(position).then(question => {
-                if (question) {
-                    setTriviaTile(question);
-                    setIsTriviaModalOpen(true);
-                }
-            });
-        }
-        
-        const checkedGameState = checkGameOver(newGameState);
-        
-        const processedState = processGameMechanics(checkedGameState);
-        
-        const { newGameState: finalState, events } = processPostMoveEffects(processedState, triggerScreenShake);
-        
-        events.forEach(event => showEventMessage(event));
-        
-        setGameState(finalState);
+      if (targeting?.targeting === 'move') {
+        setPendingPowerUpMove(candidateMoves[0] ?? null);
+      } else if (candidateMoves.length > 1) {
+        // Several moves share a destination only when a pawn promotes
+        setPendingPromotion(candidateMoves);
+      } else if (candidateMoves.length === 1) {
+        handlePlayerMove(candidateMoves[0]);
       }
       setSelectedSquare(null);
       setValidMoves([]);
     } else {
       if (piece && piece.color === currentPlayer) {
         setSelectedSquare(position);
-        const moves = getLegalMoves(gameState.board, currentPlayer, gameState.shrunkSquares)
+        const moves = availableMoves
           .filter(move => move.from.row === position.row && move.from.col === position.col)
           .map(move => move.to);
         setValidMoves(moves);
@@ -227,47 +597,184 @@ function App() {
         setValidMoves([]);
       }
     }
-  }, [gameState, selectedSquare, validMoves, showEventMessage, extraMove, gifUrl]);
+  }, [gameState, selectedSquare, validMoves, isHumanTurn, handlePlayerMove, targetingPowerUp, pendingPowerUpMove, activatePlayerPowerUp, targetPieceType, evacuatePlayerKing, respawnChoice, respawnSquares, placePlayerRespawn]);
+
+  const cancelTargeting = useCallback(() => {
+    setTargetingPowerUp(null);
+    setTargetPieceType(null);
+    setPendingPowerUpMove(null);
+    setSelectedSquare(null);
+    setValidMoves([]);
+  }, []);
+
+  const confirmPowerUpMove = useCallback(() => {
+    if (!pendingPowerUpMove) return;
+    cancelTargeting();
+    handlePlayerMove(pendingPowerUpMove);
+  }, [pendingPowerUpMove, cancelTargeting, handlePlayerMove]);
+
+  const handleAISettingsChange = useCallback((settings: AISettings) => {
+    setAISettings(settings);
+    saveAISettings(settings);
+  }, []);
+
+  const handlePromotionChoice = useCallback((move: Move) => {
+    setPendingPromotion(null);
+    handlePlayerMove(move);
+  }, [handlePlayerMove]);
 
   const handleTriviaAnswer = useCallback((isCorrect: boolean) => {
     setIsTriviaModalOpen(false);
     setTriviaTile(null);
-    if (isCorrect) {
-      showEventMessage("CORRECT! YOU GET AN EXTRA MOVE!");
-      setExtraMove(true);
+    if (triviaPlayer) {
+      recordAction({ type: 'trivia', color: triviaPlayer, correct: isCorrect });
+    }
+    if (isCorrect && triviaPlayer) {
+      const rewardedState = grantExtraMove(gameState, triviaPlayer);
+      showEventMessage(rewardedState === gameState
+        ? 'CORRECT! BUT A MOVE THAT GIVES CHECK ENDS THE TURN.'
+        : `CORRECT! ${triviaPlayer.toUpperCase()} GETS AN EXTRA MOVE!`);
+      setGameState(rewardedState);
     } else {
       showEventMessage("INCORRECT. NO REWARD.");
     }
-  }, [showEventMessage]);
+    setTriviaPlayer(null);
+  }, [gameState, showEventMessage, triviaPlayer, recordAction]);
+
+  const humanColor = (['white', 'black'] as PieceColor[]).find(color => gameSetup.players[color] === 'human');
 
   const handleForceTurn = useCallback(() => {
-    console.log('Force switching to white player');
+    if (!humanColor) return;
+    console.log(`Force switching to ${humanColor} player`);
+    recordAction({ type: 'pass', color: gameState.currentPlayer });
     setGameState(prevState => {
       setSelectedSquare(null);
       setValidMoves([]);
       return {
         ...prevState,
-        currentPlayer: 'white'
+        currentPlayer: humanColor,
+        extraMoves: 0
       };
     });
-  }, []);
-
-  const handleMoveAfterTrivia = useCallback((position: Position) => {
-    if (extraMove && gameState.currentPlayer === 'white') {
-      const piece = gameState.board[selectedSquare?.row || -1][selectedSquare?.col || -1];
-      if (piece && piece.color === 'white') {
-        handleSquareClick(position);
-        setExtraMove(false);
-      }
-    }
-  }, [extraMove, gameState, selectedSquare, handleSquareClick]);
+  }, [humanColor, gameState.currentPlayer, recordAction]);
 
   const resetGame = () => {
-    setGameState(createInitialGameState());
+    aiClientRef.current?.cancel();
+    setShowGameSetup(true);
+  };
+
+  const startGame = (setup: GameSetup) => {
+    aiClientRef.current?.cancel();
+    // Online seats are only known once the server has placed us
+    setGameSetup(setup.online
+      ? {
+        ...setup,
+        players: getOnlinePlayers('spectator'),
+        online: setup.online.mode === 'create'
+          ? {
+            mode: 'create',
+            inventory: setup.inventory,
+            shrinkPattern: setup.shrinkPattern,
+            voidRespawn: setup.voidRespawn,
+            respawnRules: setup.respawnRules
+          }
+          : setup.online
+      }
+      : setup);
+    setShowGameSetup(false);
+    setLastAnalysis(null);
+    setGameState(!setup.online && setup.startPosition
+      ? {
+        ...parsePosition(setup.startPosition),
+        inventoryRules: setup.inventory,
+        shrinkPattern: setup.shrinkPattern,
+        voidRespawn: setup.voidRespawn,
+        respawnRules: setup.respawnRules
+      }
+      : createInitialGameState(undefined, setup.inventory, setup.shrinkPattern, setup.voidRespawn, setup.respawnRules));
+    setGameActions([]);
+    setRecordError(null);
     setSelectedSquare(null);
     setValidMoves([]);
+    setPendingPromotion(null);
+    setPendingPickup(null);
+    setTargetingPowerUp(null);
+    setTargetPieceType(null);
+    setPendingPowerUpMove(null);
+    setRespawnType(null);
+  };
+
+  const downloadGame = () => {
+    const record = exportGameRecord({
+      seed: gameState.seed,
+      startPosition: gameSetup.online ? undefined : gameSetup.startPosition ?? undefined,
+      inventory: gameState.inventoryRules,
+      shrinkPattern: gameState.shrinkPattern,
+      voidRespawn: gameState.voidRespawn,
+      respawnRules: gameState.respawnRules,
+      tags: {
+        Date: formatRecordDate(new Date()),
+        White: RECORD_PLAYER_NAMES[gameSetup.players.white],
+        Black: RECORD_PLAYER_NAMES[gameSetup.players.black]
+      },
+      actions: gameActions
+    });
+    const url = URL.createObjectURL(new Blob([record], { type: 'application/x-chess-pgn' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `battle-royale-chess-${gameState.seed}.pgn`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const loadGame = async (file: File) => {
+    try {
+      const imported = importGameRecord(await file.text());
+      aiClientRef.current?.cancel();
+      setGameState(imported.gameState);
+      setGameActions(imported.record.actions);
+      setGameSetup(prev => ({
+        ...prev,
+        startPosition: imported.record.startPosition ?? null,
+        inventory: imported.gameState.inventoryRules,
+        shrinkPattern: imported.gameState.shrinkPattern,
+        voidRespawn: imported.gameState.voidRespawn,
+        respawnRules: imported.gameState.respawnRules
+      }));
+      setLastAnalysis(null);
+      setRecordError(null);
+      setSelectedSquare(null);
+      setValidMoves([]);
+      setPendingPromotion(null);
+      setPendingPickup(null);
+      setTargetingPowerUp(null);
+      setTargetPieceType(null);
+      setPendingPowerUpMove(null);
+      setRespawnType(null);
+      setShowGameSetup(false);
+      showEventMessage('GAME LOADED!');
+    } catch (error) {
+      console.error('Could not load game record:', error);
+      setRecordError(error instanceof Error ? error.message : 'Could not read that file');
+    }
   };
 
+  // Hot seat flips to whoever is moving; otherwise keep the human side at the bottom
+  const isBoardFlipped = gameSetup.players.white === 'human' && gameSetup.players.black === 'human'
+    ? gameSetup.flipBoardEachTurn && gameState.currentPlayer === 'black'
+    : gameSetup.players.black === 'human' && gameSetup.players.white !== 'human';
+
+  // The power-up panel belongs to the human whose turn it is
+  const powerUpOwner = isHumanTurn ? gameState.currentPlayer : humanColor;
+  // Traps are secret: only the human at the board sees theirs, and in hot seat that is
+  // whoever is moving. With no human playing every trap is shown.
+  const trapViewer = gameSetup.players.white === 'human' && gameSetup.players.black === 'human'
+    ? gameState.currentPlayer
+    : humanColor ?? null;
+  const targetingDefinition = targetingPowerUp ? getPowerUpDefinition(targetingPowerUp) : undefined;
+  // The panel owner's inventory comes first, then the other side's
+  const inventoryOrder: PieceColor[] = powerUpOwner === 'black' ? ['black', 'white'] : ['white', 'black'];
+
   return (
     <div className={`min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-4 ${isScreenShaking ? 'screen-shake' : ''}`}>
       {gifUrl && (
@@ -320,9 +827,17 @@ function App() {
           <div className="flex flex-col items-center">
             <ChessBoard
               gameState={gameState}
-              selectedSquare={selectedSquare}
-              validMoves={validMoves}
+              selectedSquare={pendingEvacuation && isHumanTurn ? pendingEvacuation.from : pendingRespawn ? null : selectedSquare}
+              validMoves={
+                pendingEvacuation && isHumanTurn ? pendingEvacuation.squares
+                  : pendingRespawn ? (isHumanTurn && respawnSquares) || []
+                  : validMoves
+              }
               onSquareClick={handleSquareClick}
+              players={gameSetup.players}
+              isFlipped={isBoardFlipped}
+              targetingPowerUp={targetingPowerUp}
+              trapViewer={trapViewer}
             />
             
             <div className="mt-6 flex gap-4">
@@ -341,8 +856,48 @@ function App() {
                 <Zap className="w-5 h-5" />
                 Rules & Legend
               </button>
+
+              <button
+                onClick={() => setShowAISettings(true)}
+                className="flex items-center gap-2 bg-gradient-to-r from-slate-600 to-slate-700 hover:from-slate-700 hover:to-slate-800 text-white px-6 py-3 rounded-lg font-semibold transition-all duration-200 transform hover:scale-105 shadow-lg"
+                title={`${DIFFICULTY_PROFILES[aiSettings.difficulty].label} ${PERSONALITY_PROFILES[aiSettings.personality].label}`}
+              >
+                <Cpu className="w-5 h-5" />
+                AI Settings
+              </button>
+              
+              <button
+                onClick={downloadGame}
+                disabled={!!gameSetup.online && isGameInProgress(gameState)}
+                title={gameSetup.online && isGameInProgress(gameState) ? 'Online games can be downloaded once they are over' : undefined}
+                className="flex items-center gap-2 bg-gradient-to-r from-teal-600 to-teal-700 hover:from-teal-700 hover:to-teal-800 text-white px-6 py-3 rounded-lg font-semibold transition-all duration-200 transform hover:scale-105 shadow-lg disabled:opacity-50"
+              >
+                <Download className="w-5 h-5" />
+                Download Game
+              </button>
+
+              {!gameSetup.online && (
+                <button
+                  onClick={() => recordInputRef.current?.click()}
+                  className="flex items-center gap-2 bg-gradient-to-r from-teal-600 to-teal-700 hover:from-teal-700 hover:to-teal-800 text-white px-6 py-3 rounded-lg font-semibold transition-all duration-200 transform hover:scale-105 shadow-lg"
+                >
+                  <Upload className="w-5 h-5" />
+                  Load Game
+                </button>
+              )}
+              <input
+                ref={recordInputRef}
+                type="file"
+                accept=".pgn,text/plain"
+                className="hidden"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) loadGame(file);
+                  event.target.value = '';
+                }}
+              />
               
-              {gameState.currentPlayer === 'black' && (
+              {isComputerTurn && humanColor && !pendingEvacuation && !pendingRespawn && (
                 <button
                   onClick={handleForceTurn}
                   className="flex items-center gap-2 bg-gradient-to-r from-yellow-600 to-yellow-700 hover:from-yellow-700 hover:to-yellow-800 text-white px-6 py-3 rounded-lg font-semibold transition-all duration-200 transform hover:scale-105 shadow-lg"
@@ -352,22 +907,19 @@ function App() {
                 </button>
               )}
               
-              <button
-                onClick={() => {
-                  console.log('Force generating shrink blocks for testing');
-                  setGameState(prevState => {
-                    const newShrinkBlocks = generateShrinkBlocks(prevState);
-                    return {
-                      ...prevState,
-                      shrinkBlocks: newShrinkBlocks
-                    };
-                  });
-                }}
-                className="flex items-center gap-2 bg-gradient-to-r from-purple-600 to-purple-700 hover:from-purple-700 hover:to-purple-800 text-white px-6 py-3 rounded-lg font-semibold transition-all duration-200 transform hover:scale-105 shadow-lg"
-              >
-                <Zap className="w-5 h-5" />
-                Test Danger Zones
-              </button>
+              {/* A development aid: it draws from the game's generator without recording an action */}
+              {import.meta.env.DEV && !gameSetup.online && (
+                <button
+                  onClick={() => {
+                    console.log('Force generating shrink blocks for testing');
+                    setGameState(prevState => generateShrinkBlocks(prevState));
+                  }}
+                  className="flex items-center gap-2 bg-gradient-to-r from-purple-600 to-purple-700 hover:from-purple-700 hover:to-purple-800 text-white px-6 py-3 rounded-lg font-semibold transition-all duration-200 transform hover:scale-105 shadow-lg"
+                >
+                  <Zap className="w-5 h-5" />
+                  Test Danger Zones
+                </button>
+              )}
               
               {gameState.gamePhase === 'gameOver' && (
                 <button
@@ -380,30 +932,158 @@ function App() {
               )}
             </div>
             
-            {extraMove && (
+            {targetingDefinition?.targeting === 'move' && (
+              <div className="mt-4 bg-purple-100 border-2 border-purple-400 rounded-lg px-4 py-3 text-purple-900 flex items-center gap-3">
+                <span className="text-xl">{targetingDefinition.icon}</span>
+                <span className="font-semibold">
+                  {pendingPowerUpMove?.swappedWith
+                    ? `${targetingDefinition.name} ${pendingPowerUpMove.piece.type} ${getSquareName(pendingPowerUpMove.from)} ↔ ${pendingPowerUpMove.swappedWith.type} ${getSquareName(pendingPowerUpMove.to)}?`
+                    : pendingPowerUpMove
+                    ? `${targetingDefinition.name} ${pendingPowerUpMove.piece.type} ${getSquareName(pendingPowerUpMove.from)} → ${getSquareName(pendingPowerUpMove.to)}${pendingPowerUpMove.captured ? `, capturing the ${pendingPowerUpMove.captured.type}` : ''}?`
+                    : targetingDefinition.targetPrompt}
+                </span>
+                {pendingPowerUpMove && (
+                  <button
+                    onClick={confirmPowerUpMove}
+                    className="bg-purple-600 hover:bg-purple-700 text-white px-3 py-1 rounded-lg font-semibold"
+                  >
+                    Confirm
+                  </button>
+                )}
+                <button
+                  onClick={cancelTargeting}
+                  className="bg-white hover:bg-purple-50 text-purple-700 border border-purple-300 px-3 py-1 rounded-lg font-semibold"
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+
+            {pendingEvacuation && isHumanTurn && (
+              <div className="mt-4 bg-orange-100 border-2 border-orange-400 rounded-lg px-4 py-3 text-orange-900 flex items-center gap-3">
+                <span className="text-xl">👑</span>
+                <span className="font-semibold">
+                  {`The ${pendingEvacuation.color} king's square on ${getSquareName(pendingEvacuation.from)} has fallen. Pick a highlighted square to flee to.`}
+                </span>
+              </div>
+            )}
+
+            {!pendingEvacuation && pendingRespawn && isHumanTurn && (
+              <div className="mt-4 bg-emerald-100 border-2 border-emerald-400 rounded-lg px-4 py-3 text-emerald-900 flex items-center gap-3">
+                <span className="text-xl">⚡</span>
+                <span className="font-semibold">
+                  {respawnSquares
+                    ? `Pick a highlighted square for the returning ${respawnChoice!.type}.`
+                    : `The ${pendingRespawn.color} ${pendingRespawn.piece.type} returns. Pick what it comes back as.`}
+                </span>
+                {pendingRespawn.choices.length > 1 && pendingRespawn.choices.map(choice => (
+                  <button
+                    key={choice.type}
+                    onClick={() => chooseRespawnType(choice.type)}
+                    className={`w-12 h-12 rounded-lg flex items-center justify-center transition-colors ${
+                      choice.type === respawnChoice?.type ? 'bg-emerald-600' : 'bg-amber-800 hover:bg-amber-700'
+                    }`}
+                    title={choice.type}
+                  >
+                    <ChessPiece piece={{ ...pendingRespawn.piece, type: choice.type }} />
+                  </button>
+                ))}
+                {pendingRespawn.choices.length === 1 && !respawnSquares && (
+                  <button
+                    onClick={() => chooseRespawnType(pendingRespawn.choices[0].type)}
+                    className="bg-emerald-600 hover:bg-emerald-700 text-white px-3 py-1 rounded-lg font-semibold"
+                  >
+                    Place
+                  </button>
+                )}
+              </div>
+            )}
+
+            {targetingDefinition?.getTargets && (
+              <div className="mt-4 bg-sky-100 border-2 border-sky-400 rounded-lg px-4 py-3 text-sky-900 flex items-center gap-3">
+                <span className="text-xl">{targetingDefinition.icon}</span>
+                <span className="font-semibold">{targetingDefinition.targetPrompt}</span>
+                {targetingDefinition.getPieceChoices?.(gameState, gameState.currentPlayer).map(piece => (
+                  <button
+                    key={piece.type}
+                    onClick={() => chooseTargetPieceType(piece.type)}
+                    className={`w-12 h-12 rounded-lg flex items-center justify-center transition-colors ${
+                      piece.type === targetPieceType ? 'bg-sky-600' : 'bg-amber-800 hover:bg-amber-700'
+                    }`}
+                    title={piece.type}
+                  >
+                    <ChessPiece piece={piece} />
+                  </button>
+                ))}
+                <button
+                  onClick={cancelTargeting}
+                  className="bg-white hover:bg-sky-50 text-sky-700 border border-sky-300 px-3 py-1 rounded-lg font-semibold"
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+
+            {recordError && (
+              <div className="mt-4 text-center text-sm font-semibold text-red-400">
+                {recordError}
+              </div>
+            )}
+
+            {gameSetup.online && (
+              <div className="mt-4 bg-white rounded-lg shadow-lg px-4 py-3 text-sm text-gray-700 w-full max-w-md">
+                <div className="flex items-center gap-2 font-semibold text-gray-800">
+                  <Globe className="w-4 h-4" />
+                  {onlineSession ? (
+                    <>Room <span className="font-mono tracking-widest">{onlineSession.code}</span></>
+                  ) : 'Connecting…'}
+                  <span className={`ml-auto w-2 h-2 rounded-full ${isOnlineConnected ? 'bg-green-500' : 'bg-red-500 animate-pulse'}`}></span>
+                </div>
+                {onlineSession && (
+                  <div className="mt-1">
+                    {onlineSession.role === 'spectator' ? 'Watching as a spectator' : `Playing ${onlineSession.role}`}
+                    {onlinePresence && (
+                      <>
+                        {' · '}
+                        {onlineSession.role === 'spectator'
+                          ? `White ${onlinePresence.connected.white ? 'online' : 'away'}, Black ${onlinePresence.connected.black ? 'online' : 'away'}`
+                          : onlinePresence.connected[onlineSession.role === 'white' ? 'black' : 'white']
+                            ? 'Opponent connected'
+                            : 'Waiting for opponent'}
+                        {onlinePresence.spectators > 0 && ` · ${onlinePresence.spectators} watching`}
+                      </>
+                    )}
+                  </div>
+                )}
+                {onlineError && <div className="mt-1 text-red-600">{onlineError}</div>}
+              </div>
+            )}
+
+            {isGameInProgress(gameState) && gameState.extraMoves > 0 && (
               <div className="mt-4 text-center text-lg font-semibold text-green-400 animate-pulse">
-                You have an extra move!
+                {getPlayerLabel(gameState.currentPlayer, gameSetup.players)} will move again after this move
+                {gameState.extraMoves > 1 ? ` (${gameState.extraMoves} extra moves left)` : ''}!
               </div>
             )}
           </div>
 
           <div className="w-full max-w-sm">
-            <GameInfo gameState={gameState} />
+            <GameInfo gameState={gameState} players={gameSetup.players} />
             
-            {gameState.gamePhase === 'playing' && (
+            {isGameInProgress(gameState) && (
               <div className="mt-6 bg-white rounded-lg shadow-lg p-4">
                 <h3 className="font-bold text-gray-800 mb-3">Game Status</h3>
                 <div className="space-y-2">
                   {isInCheck(gameState.board, 'white', gameState.shrunkSquares) && (
                     <div className="text-red-600 font-semibold flex items-center gap-2">
                       <span className="w-2 h-2 bg-red-600 rounded-full animate-pulse"></span>
-                      You are in CHECK!
+                      {getPlayerLabel('white', gameSetup.players) === 'You' ? 'You are' : `${getPlayerLabel('white', gameSetup.players)} is`} in CHECK!
                     </div>
                   )}
                   {isInCheck(gameState.board, 'black', gameState.shrunkSquares) && (
                     <div className="text-blue-600 font-semibold flex items-center gap-2">
                       <span className="w-2 h-2 bg-blue-600 rounded-full animate-pulse"></span>
-                      Computer is in CHECK!
+                      {getPlayerLabel('black', gameSetup.players) === 'You' ? 'You are' : `${getPlayerLabel('black', gameSetup.players)} is`} in CHECK!
                     </div>
                   )}
                   {!isInCheck(gameState.board, 'white', gameState.shrunkSquares) && 
@@ -412,58 +1092,38 @@ function App() {
                       No checks - Safe to move
                     </div>
                   )}
+                  {lastAnalysis && lastAnalysis.result.depth > 0 && (
+                    <div className="text-sm text-gray-600 pt-2 border-t">
+                      <div>
+                        Computer eval: <span className="font-semibold">{formatEvaluation(lastAnalysis.result.score, lastAnalysis.color)}</span>
+                        {' '}(depth {lastAnalysis.result.depth})
+                      </div>
+                      <div className="text-xs text-gray-500 truncate">
+                        Line: {lastAnalysis.result.principalVariation.map(formatMove).join(' ')}
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
 
-            {gameState.gamePhase === 'playing' && gameState.playerPowerUps.get('white') && (
-              <div className="mt-6 bg-gradient-to-r from-yellow-100 to-yellow-200 rounded-lg shadow-lg p-4 border-2 border-yellow-400">
-                <h3 className="font-bold text-gray-800 mb-3 flex items-center gap-2">
-                  <Zap className="w-5 h-5 text-yellow-600" />
-                  Your Powerup
-                </h3>
-                <div className="space-y-3">
-                  {(() => {
-                    const powerup = gameState.playerPowerUps.get('white');
-                    if (!powerup) return null;
-                    
-                    const getPowerupIcon = (type: string) => {
-                      switch (type) {
-                        case 'shield': return <Shield className="w-6 h-6 text-blue-600" />;
-                        case 'teleport': return <Bolt className="w-6 h-6 text-purple-600" />;
-                        case 'trap': return <Target className="w-6 h-6 text-red-600" />;
-                        case 'extraMove': return <ArrowRight className="w-6 h-6 text-green-600" />;
-                        default: return <Zap className="w-6 h-6 text-yellow-600" />;
-                      }
-                    };
-                    
-                    return (
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-3">
-                          {getPowerupIcon(powerup.type)}
-                          <div>
-                            <div className="font-semibold text-gray-800 capitalize">
-                              {powerup.type}
-                            </div>
-                            <div className="text-sm text-gray-600">
-                              {getPowerUpDescription(powerup.type)}
-                            </div>
-                          </div>
-                        </div>
-                        <button
-                          onClick={() => {
-                            const newGameState = usePowerUp(gameState, 'white', powerup.type);
-                            setGameState(newGameState);
-                            showEventMessage(`${powerup.type.toUpperCase()} ACTIVATED!`);
-                          }}
-                          className="bg-yellow-500 hover:bg-yellow-600 text-white px-4 py-2 rounded-lg font-semibold transition-colors duration-200"
-                        >
-                          Use
-                        </button>
-                      </div>
-                    );
-                  })()}
-                </div>
+            {isGameInProgress(gameState) && (
+              <div className="mt-6 space-y-3">
+                {inventoryOrder.map(color => {
+                  const label = getPlayerLabel(color, gameSetup.players);
+                  return (
+                    <PowerUpInventory
+                      key={color}
+                      gameState={gameState}
+                      color={color}
+                      title={`${label === 'You' ? 'Your' : `${label}'s`} Power-ups`}
+                      isHidden={gameState.inventoryRules.hidden && trapViewer !== null && color !== trapViewer}
+                      canAct={isHumanTurn && color === gameState.currentPlayer && !targetingPowerUp && !pendingEvacuation && !pendingRespawn}
+                      onUse={powerUpType => selectPowerUp(color, powerUpType)}
+                      onDiscard={powerUpType => discardPlayerPowerUp(color, powerUpType)}
+                    />
+                  );
+                })}
               </div>
             )}
           </div>
@@ -480,6 +1140,33 @@ function App() {
             triviaTile={triviaTile}
             onAnswer={handleTriviaAnswer}
         />
+
+        <GameSetupModal
+          isOpen={showGameSetup}
+          initialSetup={gameSetup}
+          onStart={startGame}
+          onClose={() => setShowGameSetup(false)}
+        />
+
+        <AISettingsModal
+          isOpen={showAISettings}
+          settings={aiSettings}
+          onChange={handleAISettingsChange}
+          onClose={() => setShowAISettings(false)}
+        />
+
+        <PromotionModal
+          moves={pendingPromotion}
+          onSelect={handlePromotionChoice}
+          onCancel={() => setPendingPromotion(null)}
+        />
+
+        <PickupChoiceModal
+          gameState={gameState}
+          pickup={pendingPickup}
+          onChoose={handlePickupChoice}
+          onCancel={() => setPendingPickup(null)}
+        />
       </div>
     </div>
   );
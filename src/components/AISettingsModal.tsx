@@ -0,0 +1,81 @@
+import { AIDifficulty, AIPersonality, AISettings } from '../types/chess';
+import { DIFFICULTY_PROFILES, PERSONALITY_PROFILES } from '../utils/aiSettings';
+import { Cpu } from 'lucide-react';
+
+interface AISettingsModalProps {
+  isOpen: boolean;
+  settings: AISettings;
+  onChange: (settings: AISettings) => void;
+  onClose: () => void;
+}
+
+export function AISettingsModal({ isOpen, settings, onChange, onClose }: AISettingsModalProps) {
+  if (!isOpen) return null;
+
+  const difficulties = Object.entries(DIFFICULTY_PROFILES) as [AIDifficulty, typeof DIFFICULTY_PROFILES[AIDifficulty]][];
+  const personalities = Object.entries(PERSONALITY_PROFILES) as [AIPersonality, typeof PERSONALITY_PROFILES[AIPersonality]][];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+            <Cpu className="w-6 h-6 text-blue-600" />
+            Computer Opponent
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 text-xl font-bold"
+          >
+            ×
+          </button>
+        </div>
+
+        <h3 className="text-lg font-semibold text-gray-800 border-b pb-2 mb-3">Difficulty</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-5 gap-2 mb-6">
+          {difficulties.map(([difficulty, profile]) => (
+            <button
+              key={difficulty}
+              onClick={() => onChange({ ...settings, difficulty })}
+              className={`p-3 rounded-lg text-left transition-colors ${
+                settings.difficulty === difficulty
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 hover:bg-gray-200 text-gray-800'
+              }`}
+            >
+              <div className="font-semibold">{profile.label}</div>
+              <div className="text-xs opacity-80 mt-1">{profile.description}</div>
+            </button>
+          ))}
+        </div>
+
+        <h3 className="text-lg font-semibold text-gray-800 border-b pb-2 mb-3">Personality</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {personalities.map(([personality, profile]) => (
+            <button
+              key={personality}
+              onClick={() => onChange({ ...settings, personality })}
+              className={`p-3 rounded-lg text-left transition-colors ${
+                settings.personality === personality
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-gray-100 hover:bg-gray-200 text-gray-800'
+              }`}
+            >
+              <div className="font-semibold">{profile.label}</div>
+              <div className="text-sm opacity-80 mt-1">{profile.description}</div>
+            </button>
+          ))}
+        </div>
+
+        <div className="mt-6 text-center">
+          <button
+            onClick={onClose}
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,33 @@
 import React from 'react';
-import { GameState, Position, ChessPiece as ChessPieceType, ShrinkBlock, PowerUp, TriviaTile } from '../types/chess';
+import { GameState, Position, PowerUp, TriviaTile, PieceColor, PlayerController } from '../types/chess';
 import { ChessPiece } from './ChessPiece';
 import { positionKey, isInCheck } from '../utils/chessLogic';
+import { getActingColor, getPendingDecision, getPlayerLabel } from '../utils/gameLogic';
+import { getPowerUpDefinition } from '../utils/powerupRegistry';
+import { getUpcomingShrinkSquares } from '../utils/shrinkLogic';
 
 interface ChessBoardProps {
   gameState: GameState;
   selectedSquare: Position | null;
   validMoves: Position[];
   onSquareClick: (position: Position) => void;
+  players: Record<PieceColor, PlayerController>;
+  isFlipped?: boolean;
+  // Highlights are tinted by the power-up whose target is being picked
+  targetingPowerUp?: PowerUp['type'] | null;
+  // Only this player's traps and scouted ones are drawn; null draws every trap
+  trapViewer?: PieceColor | null;
 }
 
-export function ChessBoard({ gameState, selectedSquare, validMoves, onSquareClick }: ChessBoardProps) {
+export function ChessBoard({ gameState, selectedSquare, validMoves, onSquareClick, players, isFlipped = false, targetingPowerUp = null, trapViewer = null }: ChessBoardProps) {
+  const boardIndices = isFlipped ? [7, 6, 5, 4, 3, 2, 1, 0] : [0, 1, 2, 3, 4, 5, 6, 7];
+  // A caught king or a returning piece is seen to by its owner before the turn goes on
+  const decision = getPendingDecision(gameState);
+  const actingColor = getActingColor(gameState);
+  const isHumanTurn = players[actingColor] === 'human';
+  const moverLabel = getPlayerLabel(actingColor, players);
+  const upcomingShrink = new Set(getUpcomingShrinkSquares(gameState).map(positionKey));
+
   const isSquareSelected = (row: number, col: number): boolean => {
     return selectedSquare?.row === row && selectedSquare?.col === col;
   };
@@ -40,6 +57,12 @@ export function ChessBoard({ gameState, selectedSquare, validMoves, onSquareClic
     ) || null;
   };
 
+  const isVisibleTrap = (row: number, col: number): boolean => {
+    const key = positionKey({ row, col });
+    const owner = gameState.trapSquares.get(key);
+    return !!owner && (trapViewer === null || owner === trapViewer || gameState.revealedTraps.has(key));
+  };
+
   const isTriviaTile = (row: number, col: number): TriviaTile | null => {
     return gameState.triviaTiles.find(tile => tile.position.row === row && tile.position.col === col) || null;
   };
@@ -77,6 +100,10 @@ export function ChessBoard({ gameState, selectedSquare, validMoves, onSquareClic
       }
     } else if (isSquareSelected(row, col)) {
       bgClass = isLight ? 'bg-blue-300' : 'bg-blue-600';
+    } else if (isValidMoveSquare(row, col) && targetingPowerUp && getPowerUpDefinition(targetingPowerUp)?.targeting === 'move') {
+      bgClass = isLight ? 'bg-purple-300' : 'bg-purple-600';
+    } else if (isValidMoveSquare(row, col) && targetingPowerUp) {
+      bgClass = isLight ? 'bg-sky-300' : 'bg-sky-600';
     } else if (isValidMoveSquare(row, col)) {
       bgClass = isLight ? 'bg-green-300' : 'bg-green-600';
     }
@@ -86,14 +113,22 @@ export function ChessBoard({ gameState, selectedSquare, validMoves, onSquareClic
 
   return (
     <div className="inline-block border-4 border-amber-900 rounded-lg overflow-hidden shadow-2xl">
-      <div className={`text-center py-2 text-sm font-bold ${gameState.currentPlayer === 'white' ? 'bg-blue-100 text-blue-800' : 'bg-red-100 text-red-800'}`}>
-        {gameState.currentPlayer === 'white' ? 'Your Turn - Click a piece to move' : 'Computer Turn - Please wait...'}
+      <div className={`text-center py-2 text-sm font-bold ${actingColor === 'white' ? 'bg-blue-100 text-blue-800' : 'bg-red-100 text-red-800'}`}>
+        {decision?.kind === 'evacuation'
+          ? `${moverLabel === 'You' ? 'Your' : `${moverLabel}'s`} King Must Flee - ${isHumanTurn ? 'Click a highlighted square' : 'Please wait...'}`
+          : decision?.kind === 'respawn'
+          ? `${moverLabel === 'You' ? 'Your' : `${moverLabel}'s`} Piece Returns - ${isHumanTurn ? 'Choose how it comes back' : 'Please wait...'}`
+          : isHumanTurn
+          ? `${moverLabel === 'You' ? 'Your' : `${moverLabel}'s`} Turn - Click a piece to move`
+          : `${moverLabel} Turn - Please wait...`}
       </div>
       <div className="grid grid-cols-8 gap-0">
-        {Array.from({ length: 8 }, (_, row) =>
-          Array.from({ length: 8 }, (_, col) => {
+        {boardIndices.map(row =>
+          boardIndices.map(col => {
             const piece = gameState.board[row][col];
             const position = { row, col };
+            const shieldTurns = piece ? gameState.shieldedPieces.get(piece.id) : undefined;
+            const frozenTurns = piece ? gameState.frozenPieces.get(piece.id) : undefined;
             
             return (
               <div
@@ -104,10 +139,11 @@ export function ChessBoard({ gameState, selectedSquare, validMoves, onSquareClic
                 {piece && (
                   <div className={`
                     ${piece.isTeleporting ? 'king-teleport' : ''}
-                    ${piece.isEmergency ? 'emergency-warning' : ''}
+                    ${piece.type === 'king' && (isShrinkWarning(row, col) || gameState.shrunkSquares.has(positionKey(position))) ? 'emergency-warning' : ''}
                     ${piece.isRespawning ? 'respawn-lightning respawn-shockwave' : ''}
                     ${piece.isTransformed && piece.transformationType === 'veteran' ? 'veteran-glow' : ''}
                     ${piece.isTransformed && piece.transformationType === 'fusion' ? 'fusion-glow' : ''}
+                    ${shieldTurns !== undefined ? 'shield-aura' : ''}
                   `}>
                     <ChessPiece piece={piece} />
                     {piece.isTransformed && (
@@ -119,12 +155,48 @@ export function ChessBoard({ gameState, selectedSquare, validMoves, onSquareClic
                     )}
                   </div>
                 )}
+                {piece && gameState.stunnedPieces.has(piece.id) && (
+                  <div className="absolute top-0 right-0 text-sm" title="Stunned: cannot move this turn">💫</div>
+                )}
+                {shieldTurns !== undefined && (
+                  <div
+                    className="absolute bottom-0 left-0 w-5 h-5 bg-sky-500 rounded-full flex items-center justify-center"
+                    title={`Shielded for ${shieldTurns} more opponent move${shieldTurns === 1 ? '' : 's'}`}
+                  >
+                    <span className="text-white text-xs font-bold">{shieldTurns}</span>
+                  </div>
+                )}
+                {frozenTurns !== undefined && (
+                  <div
+                    className="absolute bottom-0 right-0 flex items-center text-xs font-bold text-cyan-200"
+                    title={`Frozen for ${frozenTurns} more move${frozenTurns === 1 ? '' : 's'}`}
+                  >
+                    ❄️{frozenTurns}
+                  </div>
+                )}
+                {gameState.voidPieces
+                  .filter(fallen => fallen.position.row === row && fallen.position.col === col)
+                  .map(fallen => (
+                    <div
+                      key={fallen.piece.id}
+                      className="absolute inset-0 flex items-center justify-center void-fall"
+                    >
+                      <ChessPiece piece={fallen.piece} />
+                    </div>
+                  ))}
                 {isValidMoveSquare(row, col) && !piece && (
                   <div className="absolute inset-0 flex items-center justify-center">
                     <div className="w-4 h-4 bg-white bg-opacity-50 rounded-full" />
                   </div>
                 )}
                 
+                {upcomingShrink.has(positionKey(position)) && (
+                  <div
+                    className="absolute inset-0 border-2 border-dotted border-orange-500 pointer-events-none"
+                    title="In the path of the next shrink wave"
+                  />
+                )}
+
                 {isShrinkWarning(row, col) && (
                   <div className="absolute top-1 right-1 bg-red-600 text-white text-xs font-bold rounded-full w-5 h-5 flex items-center justify-center">
                     {getShrinkWarningLevel(row, col)}
@@ -135,14 +207,21 @@ export function ChessBoard({ gameState, selectedSquare, validMoves, onSquareClic
                   <div className="absolute inset-0 flex items-center justify-center">
                     <div className="w-8 h-8 bg-gradient-to-r from-yellow-400 to-yellow-600 rounded-full flex items-center justify-center powerup-icon shadow-lg">
                       <span className="text-white text-sm font-bold">
-                        {isPowerUp(row, col)?.type === 'teleport' ? '⚡' :
-                         isPowerUp(row, col)?.type === 'shield' ? '🛡️' :
-                         isPowerUp(row, col)?.type === 'extraMove' ? '⏩' : '💥'}
+                        {getPowerUpDefinition(isPowerUp(row, col)!.type)?.icon ?? '✨'}
                       </span>
                     </div>
                   </div>
                 )}
 
+                {isVisibleTrap(row, col) && (
+                  <div
+                    className="absolute inset-1 border-2 border-dashed border-red-600 rounded flex items-end justify-end pointer-events-none"
+                    title={gameState.revealedTraps.has(positionKey(position)) ? 'Armed trap (scouted)' : 'Armed trap'}
+                  >
+                    <span className="text-xs">💥</span>
+                  </div>
+                )}
+
                 {isTriviaTile(row, col) && (
                   <div className="absolute inset-0 flex items-center justify-center">
                     <div className="w-8 h-8 bg-gradient-to-r from-blue-400 to-blue-600 rounded-full flex items-center justify-center trivia-icon shadow-lg">
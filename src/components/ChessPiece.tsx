@@ -1,5 +1,6 @@
 import React from 'react';
 import { ChessPiece as ChessPieceType } from '../types/chess';
+import { getFusionName } from '../utils/transformationLogic';
 
 interface ChessPieceProps {
   piece: ChessPieceType;
@@ -27,8 +28,9 @@ export function ChessPiece({ piece, isDragging, onClick }: ChessPieceProps) {
   
   return (
     <div
+      title={getFusionName(piece) ?? undefined}
       className={`
-        text-4xl cursor-pointer select-none transition-all duration-200
+        relative text-4xl cursor-pointer select-none transition-all duration-200
         hover:scale-110 hover:drop-shadow-lg
         ${isDragging ? 'opacity-70 scale-110' : ''}
         ${piece.color === 'white' ? 'text-gray-100 drop-shadow-[0_2px_2px_rgba(0,0,0,0.8)]' : 'text-gray-900 drop-shadow-[0_2px_2px_rgba(255,255,255,0.3)]'}
@@ -36,6 +38,12 @@ export function ChessPiece({ piece, isDragging, onClick }: ChessPieceProps) {
       onClick={onClick}
     >
       {symbol}
+      {/* A fused piece shows the pieces it absorbed beside its own */}
+      {piece.fusionMoves?.map(type => (
+        <span key={type} className="absolute -bottom-1 -right-2 text-xl">
+          {pieceSymbols[`${piece.color}-${type}`]}
+        </span>
+      ))}
     </div>
   );
 }
\ No newline at end of file
@@ -1,12 +1,29 @@
 import React from 'react';
-import { GameState } from '../types/chess';
+import { GameState, PieceColor, PlayerController } from '../types/chess';
+import { getDrawReasonDescription } from '../utils/drawLogic';
+import { getPlayerLabel, isGameInProgress } from '../utils/gameLogic';
+import { serializePosition } from '../utils/positionLogic';
+import { getHeldPowerUps, POWER_UP_SPAWN_EVENT } from '../utils/powerupLogic';
+import { RESPAWN_EVENT } from '../utils/respawnLogic';
+import { getTurnsUntil, getUpcomingEvents, ScheduledEvent } from '../utils/scheduleLogic';
+import { SHRINK_EVENT } from '../utils/shrinkLogic';
 import { Crown, Clock, Target, Zap, Shield, Star, Zap as PowerUpIcon } from 'lucide-react';
 
 interface GameInfoProps {
   gameState: GameState;
+  players: Record<PieceColor, PlayerController>;
 }
 
-export function GameInfo({ gameState }: GameInfoProps) {
+export function GameInfo({ gameState, players }: GameInfoProps) {
+  const ownerLabel = (color: PieceColor) => {
+    const label = getPlayerLabel(color, players);
+    return label === 'You' ? 'Your' : label;
+  };
+  const turnsUntil = (event: ScheduledEvent) => getTurnsUntil(event, gameState.turnCount);
+  const cycleProgress = (event: ScheduledEvent) => ((event.period - turnsUntil(event)) / event.period) * 100;
+  const upcomingEvents = getUpcomingEvents(gameState);
+  const voidLosses = (color: PieceColor) => gameState.voidPieces.filter(({ piece }) => piece.color === color).length;
+
   return (
     <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
       <div className="flex items-center gap-3">
@@ -21,9 +38,9 @@ export function GameInfo({ gameState }: GameInfoProps) {
             <span className="font-semibold text-gray-700">Current Player</span>
           </div>
           <div className={`capitalize font-bold ${gameState.currentPlayer === 'white' ? 'text-blue-600' : 'text-red-600'}`}>
-            {gameState.currentPlayer === 'white' ? 'Your Turn' : 'Computer Turn'}
+            {ownerLabel(gameState.currentPlayer)} Turn
           </div>
-          {gameState.currentPlayer === 'black' && (
+          {players[gameState.currentPlayer] === 'computer' && (
             <div className="text-xs text-gray-500 mt-1">Computer is thinking...</div>
           )}
         </div>
@@ -39,7 +56,7 @@ export function GameInfo({ gameState }: GameInfoProps) {
           <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
             <div 
               className="bg-green-600 h-2 rounded-full transition-all duration-300" 
-              style={{ width: `${((gameState.turnCount % 16) / 16) * 100}%` }}
+              style={{ width: `${cycleProgress(SHRINK_EVENT)}%` }}
             ></div>
           </div>
           <div className="text-xs text-gray-500 mt-1">Progress to next shrink</div>
@@ -51,8 +68,11 @@ export function GameInfo({ gameState }: GameInfoProps) {
             <span className="font-semibold text-gray-700">Next Shrink</span>
           </div>
           <div className="font-bold text-red-600">
-            {16 - (gameState.turnCount % 16)} turns
+            {turnsUntil(SHRINK_EVENT)} turns
           </div>
+          {gameState.gamePhase === 'shrinking' && (
+            <div className="text-xs font-bold text-red-700 mt-1 animate-pulse">SUDDEN DEATH</div>
+          )}
         </div>
         
         <div className="bg-gray-50 rounded-lg p-3">
@@ -61,16 +81,36 @@ export function GameInfo({ gameState }: GameInfoProps) {
             <span className="font-semibold text-gray-700">Next Respawn</span>
           </div>
           <div className="font-bold text-purple-600">
-            {15 - (gameState.turnCount % 15)} turns
+            {turnsUntil(RESPAWN_EVENT)} turns
           </div>
           <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
             <div
               className="bg-purple-600 h-2 rounded-full transition-all duration-300"
-              style={{ width: `${((gameState.turnCount % 15) / 15) * 100}%` }}
+              style={{ width: `${cycleProgress(RESPAWN_EVENT)}%` }}
             ></div>
           </div>
         </div>
       </div>
+
+      {isGameInProgress(gameState) && upcomingEvents.length > 0 && (
+        <div className="bg-gray-50 rounded-lg p-3">
+          <div className="flex items-center gap-2 mb-2">
+            <Clock className="w-4 h-4 text-gray-600" />
+            <span className="font-semibold text-gray-700">Next Events</span>
+          </div>
+          <ol className="space-y-1">
+            {upcomingEvents.map(({ event, turnsUntil: turns }) => (
+              <li key={event.id} className="flex items-center gap-2 text-sm">
+                <span className="w-6 text-center">{event.icon}</span>
+                <span className="text-gray-700">{event.label}</span>
+                <span className={`ml-auto text-xs font-bold ${turns === 1 ? 'text-red-600' : 'text-gray-500'}`}>
+                  {turns === 1 ? 'next turn' : `in ${turns} turns`}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
       
       {gameState.gamePhase === 'gameOver' && gameState.winner && (
         <div className="bg-gradient-to-r from-yellow-400 to-yellow-600 rounded-lg p-4 text-center">
@@ -79,8 +119,31 @@ export function GameInfo({ gameState }: GameInfoProps) {
             <span className="text-white font-bold text-lg">Game Over!</span>
           </div>
           <div className="text-white font-bold capitalize">
-            {gameState.winner} Wins!
+            {gameState.winner === 'draw' ? 'Draw!' : `${gameState.winner} Wins!`}
           </div>
+          {gameState.winner === 'draw' && gameState.drawReason && (
+            <div className="text-white text-sm mt-1">
+              {getDrawReasonDescription(gameState.drawReason)}
+            </div>
+          )}
+          <table className="w-full mt-3 text-sm text-white">
+            <thead>
+              <tr>
+                <th className="text-left font-semibold">Pieces lost</th>
+                <th className="font-semibold">Captured</th>
+                <th className="font-semibold">Void</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(['white', 'black'] as PieceColor[]).map(color => (
+                <tr key={color}>
+                  <td className="text-left">{getPlayerLabel(color, players)}</td>
+                  <td>{gameState.capturedPieces.filter(piece => piece.color === color).length}</td>
+                  <td>{voidLosses(color)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
         </div>
       )}
       
@@ -90,7 +153,21 @@ export function GameInfo({ gameState }: GameInfoProps) {
             Captured Pieces ({gameState.capturedPieces.length})
           </div>
           <div className="text-sm text-gray-600">
-            Next piece will respawn in {15 - (gameState.turnCount % 15)} turns
+            Next piece will respawn in {turnsUntil(RESPAWN_EVENT)} turns
+          </div>
+        </div>
+      )}
+
+      {gameState.voidPieces.length > 0 && (
+        <div className="bg-gray-900 rounded-lg p-3">
+          <div className="font-semibold text-gray-100 mb-2">
+            Fallen into the Void ({gameState.voidPieces.length})
+          </div>
+          <div className="text-sm text-gray-300">
+            {ownerLabel('white')}: {voidLosses('white')} · {ownerLabel('black')}: {voidLosses('black')}
+          </div>
+          <div className="text-xs text-gray-400 mt-1">
+            {gameState.voidRespawn ? 'They respawn like captured pieces' : 'Lost for good'}
           </div>
         </div>
       )}
@@ -106,21 +183,21 @@ export function GameInfo({ gameState }: GameInfoProps) {
         
         <div className="space-y-2">
           <div className="flex items-center justify-between">
-            <span className="text-xs text-gray-600">Your Power-up:</span>
+            <span className="text-xs text-gray-600">{ownerLabel('white')} Power-ups:</span>
             <span className="text-xs font-bold text-blue-600">
-              {gameState.playerPowerUps.get('white')?.type || 'None'}
+              {getHeldPowerUps(gameState, 'white').length} held
             </span>
           </div>
           <div className="flex items-center justify-between">
-            <span className="text-xs text-gray-600">Computer Power-up:</span>
+            <span className="text-xs text-gray-600">{ownerLabel('black')} Power-ups:</span>
             <span className="text-xs font-bold text-red-600">
-              {gameState.playerPowerUps.get('black')?.type || 'None'}
+              {getHeldPowerUps(gameState, 'black').length} held
             </span>
           </div>
         </div>
         
         <div className="text-xs text-gray-500 mt-2">
-          Next spawn: {12 - (gameState.turnCount % 12)} turns
+          Next spawn: {turnsUntil(POWER_UP_SPAWN_EVENT)} turns
         </div>
       </div>
       
@@ -135,6 +212,17 @@ export function GameInfo({ gameState }: GameInfoProps) {
           </div>
         </div>
       )}
+
+      <div className="flex items-center justify-end gap-2 text-xs text-gray-400">
+        <span title="Replaying the same seed and moves reproduces this game">Seed {gameState.seed}</span>
+        <button
+          onClick={() => navigator.clipboard?.writeText(serializePosition(gameState))}
+          className="underline hover:text-gray-600"
+          title="Copy the full position, e.g. for a bug report"
+        >
+          Copy position
+        </button>
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -1,4 +1,8 @@
-import { Crown, Zap, Shield, Star, Target, Clock, AlertTriangle, Sparkles } from 'lucide-react';
+import { Crown, Zap, Star, Target, Clock, AlertTriangle, Sparkles } from 'lucide-react';
+import { getPowerUpDefinitions } from '../utils/powerupRegistry';
+import { RESPAWN_EVENT } from '../utils/respawnLogic';
+import { SHRINK_EVENT } from '../utils/shrinkLogic';
+import { FUSION_EVENT, FUSION_IDLE_TURNS, TRANSFORMATION_EVENT } from '../utils/transformationLogic';
 
 interface GameRulesLegendProps {
   isOpen: boolean;
@@ -50,7 +54,15 @@ export function GameRulesLegend({ isOpen, onClose }: GameRulesLegendProps) {
                 <Clock className="w-5 h-5 text-blue-600 mt-0.5" />
                 <div>
                   <div className="font-semibold">Turn-Based</div>
-                  <div className="text-sm text-gray-600">Players alternate turns. White (you) vs Black (computer).</div>
+                  <div className="text-sm text-gray-600">Players alternate turns. Play either color against the computer, pass-and-play with a friend, or watch two computers.</div>
+                </div>
+              </div>
+
+              <div className="flex items-start gap-3">
+                <AlertTriangle className="w-5 h-5 text-gray-600 mt-0.5" />
+                <div>
+                  <div className="font-semibold">Draws</div>
+                  <div className="text-sm text-gray-600">Stalemate, threefold repetition, 50 moves without a capture or pawn move, or too little material to mate. Pieces waiting to respawn still count as material.</div>
                 </div>
               </div>
             </div>
@@ -65,7 +77,15 @@ export function GameRulesLegend({ isOpen, onClose }: GameRulesLegendProps) {
                 <Zap className="w-5 h-5 text-red-600 mt-0.5" />
                 <div>
                   <div className="font-semibold">Board Shrinking</div>
-                  <div className="text-sm text-gray-600">Every 12 turns, board edges shrink. Kings teleport to safety if caught.</div>
+                  <div className="text-sm text-gray-600">Every {SHRINK_EVENT.period} turns, squares fall away following the shrink pattern chosen at setup. A king caught on a falling square flees before anyone moves: its owner picks one of the nearest empty squares the enemy does not attack. A king with no such square falls with its square and loses.</div>
+                </div>
+              </div>
+
+              <div className="flex items-start gap-3">
+                <AlertTriangle className="w-5 h-5 text-red-700 mt-0.5" />
+                <div>
+                  <div className="font-semibold">Sudden Death</div>
+                  <div className="text-sm text-gray-600">When the pattern runs out, the outermost ring left keeps collapsing every {SHRINK_EVENT.period} turns until a single random square remains. In sudden death a stalemate, and at any time the loss of both kings at once, goes to the side with more material on the board; equal material is a draw.</div>
                 </div>
               </div>
 
@@ -73,7 +93,7 @@ export function GameRulesLegend({ isOpen, onClose }: GameRulesLegendProps) {
                 <Sparkles className="w-5 h-5 text-purple-600 mt-0.5" />
                 <div>
                   <div className="font-semibold">Piece Respawning</div>
-                  <div className="text-sm text-gray-600">Captured pieces respawn every 15 turns at random safe locations.</div>
+                  <div className="text-sm text-gray-600">Captured pieces respawn every {RESPAWN_EVENT.period} turns at random safe locations, never giving check. Games can instead let the owner place the piece in their home zone, the two ranks nearest their edge (further up if the shrink has taken those), and pick its type from a draft of 2 or 3 rolled types. Pieces that fall into the void with a shrinking square only respawn if the game was set up to allow it.</div>
                 </div>
               </div>
 
@@ -81,7 +101,15 @@ export function GameRulesLegend({ isOpen, onClose }: GameRulesLegendProps) {
                 <Star className="w-5 h-5 text-yellow-600 mt-0.5" />
                 <div>
                   <div className="font-semibold">Transformations</div>
-                  <div className="text-sm text-gray-600">Every 12 turns, one random pawn per side transforms into a stronger piece.</div>
+                  <div className="text-sm text-gray-600">Every {TRANSFORMATION_EVENT.period} turns, one random pawn per side transforms into a stronger piece.</div>
+                </div>
+              </div>
+
+              <div className="flex items-start gap-3">
+                <Star className="w-5 h-5 text-purple-600 mt-0.5" />
+                <div>
+                  <div className="font-semibold">Fusions</div>
+                  <div className="text-sm text-gray-600">Every {FUSION_EVENT.period} turns, a knight and a bishop, rook or queen that have both moved before and then stood side by side for {FUSION_IDLE_TURNS} turns may fuse into one piece that moves as both: an Archbishop, Chancellor or Amazon. One pair per side fuses at a time.</div>
                 </div>
               </div>
             </div>
@@ -108,6 +136,14 @@ export function GameRulesLegend({ isOpen, onClose }: GameRulesLegendProps) {
                 </div>
               </div>
 
+              <div className="flex items-start gap-3">
+                <div className="w-5 h-5 border-2 border-dotted border-orange-500 mt-0.5"></div>
+                <div>
+                  <div className="font-semibold">Dotted Orange Outline</div>
+                  <div className="text-sm text-gray-600">Next in line for the shrink pattern chosen at setup; random patterns outline the edge they may bite from.</div>
+                </div>
+              </div>
+
               <div className="flex items-start gap-3">
                 <div className="w-5 h-5 bg-yellow-500 rounded-full mt-0.5"></div>
                 <div>
@@ -119,8 +155,8 @@ export function GameRulesLegend({ isOpen, onClose }: GameRulesLegendProps) {
               <div className="flex items-start gap-3">
                 <div className="w-5 h-5 bg-purple-500 rounded-full mt-0.5"></div>
                 <div>
-                  <div className="font-semibold">"V" Symbol</div>
-                  <div className="text-sm text-gray-600">Veteran/transformed pieces with enhanced abilities.</div>
+                  <div className="font-semibold">"V" and "F" Symbols</div>
+                  <div className="text-sm text-gray-600">Veteran/transformed pieces with enhanced abilities, and fused pieces, drawn with the piece they absorbed.</div>
                 </div>
               </div>
             </div>
@@ -131,36 +167,18 @@ export function GameRulesLegend({ isOpen, onClose }: GameRulesLegendProps) {
             <h3 className="text-lg font-semibold text-gray-800 border-b pb-2">Power-ups</h3>
             
             <div className="space-y-3">
-              <div className="flex items-start gap-3">
-                <Shield className="w-5 h-5 text-blue-600 mt-0.5" />
-                <div>
-                  <div className="font-semibold">Shield</div>
-                  <div className="text-sm text-gray-600">Protects a piece from being captured for several turns.</div>
-                </div>
-              </div>
-
-              <div className="flex items-start gap-3">
-                <Zap className="w-5 h-5 text-yellow-600 mt-0.5" />
-                <div>
-                  <div className="font-semibold">Lightning</div>
-                  <div className="text-sm text-gray-600">Allows a piece to move twice in one turn.</div>
-                </div>
-              </div>
-
-              <div className="flex items-start gap-3">
-                <Target className="w-5 h-5 text-red-600 mt-0.5" />
-                <div>
-                  <div className="font-semibold">Trap</div>
-                  <div className="text-sm text-gray-600">Places a hidden trap that captures the next enemy piece to step on it.</div>
-                </div>
-              </div>
-
-              <div className="flex items-start gap-3">
-                <Crown className="w-5 h-5 text-purple-600 mt-0.5" />
-                <div>
-                  <div className="font-semibold">Teleport</div>
-                  <div className="text-sm text-gray-600">Instantly moves your king to any safe square on the board.</div>
+              {getPowerUpDefinitions().map(definition => (
+                <div key={definition.id} className="flex items-start gap-3">
+                  <span className="w-5 text-center mt-0.5">{definition.icon}</span>
+                  <div>
+                    <div className="font-semibold">{definition.name}</div>
+                    <div className="text-sm text-gray-600">{definition.rules}</div>
+                  </div>
                 </div>
+              ))}
+              <div className="text-sm text-gray-600">
+                Collected power-ups fill inventory slots; copies of one type stack in a single slot.
+                With a full inventory, discard one to pick up another. Held power-ups may expire after a set number of your moves.
               </div>
             </div>
           </div>
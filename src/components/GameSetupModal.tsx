@@ -0,0 +1,292 @@
+import { useState } from 'react';
+import { GameSetup, PlayerController } from '../types/chess';
+import { parsePosition } from '../utils/positionLogic';
+import { MAX_INVENTORY_SLOTS } from '../utils/powerupLogic';
+import { DRAFT_SIZES } from '../utils/respawnLogic';
+import { getShrinkPattern, getShrinkPatterns } from '../utils/shrinkPatternRegistry';
+import { Users, Cpu, User, Globe, Zap } from 'lucide-react';
+
+interface GameSetupModalProps {
+  isOpen: boolean;
+  initialSetup: GameSetup;
+  onStart: (setup: GameSetup) => void;
+  onClose: () => void;
+}
+
+const MODES: { label: string; description: string; players: GameSetup['players'] }[] = [
+  {
+    label: 'Play as White',
+    description: 'You move first against the computer.',
+    players: { white: 'human', black: 'computer' }
+  },
+  {
+    label: 'Play as Black',
+    description: 'The computer opens, you reply.',
+    players: { white: 'computer', black: 'human' }
+  },
+  {
+    label: 'Hot Seat',
+    description: 'Two players share this device.',
+    players: { white: 'human', black: 'human' }
+  },
+  {
+    label: 'Computer vs Computer',
+    description: 'Sit back and watch the engine fight itself.',
+    players: { white: 'computer', black: 'computer' }
+  }
+];
+
+// Own moves a held power-up may last; 0 keeps it until used
+const HELD_TURN_CHOICES = [0, 6, 12, 20];
+
+function getModeIcon(players: Record<string, PlayerController>) {
+  if (players.white === 'human' && players.black === 'human') return <Users className="w-5 h-5" />;
+  if (players.white === 'computer' && players.black === 'computer') return <Cpu className="w-5 h-5" />;
+  return <User className="w-5 h-5" />;
+}
+
+export function GameSetupModal({ isOpen, initialSetup, onStart, onClose }: GameSetupModalProps) {
+  const [setup, setSetup] = useState<GameSetup>(initialSetup);
+
+  if (!isOpen) return null;
+
+  const isHotSeat = !setup.online && setup.players.white === 'human' && setup.players.black === 'human';
+  const joinCode = setup.online?.mode === 'join' ? setup.online.code : '';
+  let positionError: string | null = null;
+  if (!setup.online && setup.startPosition) {
+    try {
+      parsePosition(setup.startPosition);
+    } catch (error) {
+      positionError = error instanceof Error ? error.message : 'Invalid position';
+    }
+  }
+  const canStart = !positionError && (setup.online?.mode !== 'join' || joinCode.trim().length > 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 max-w-xl w-full">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-800">New Game</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 text-xl font-bold"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {MODES.map(mode => {
+            const isSelected = !setup.online && mode.players.white === setup.players.white &&
+              mode.players.black === setup.players.black;
+
+            return (
+              <button
+                key={mode.label}
+                onClick={() => setSetup({ ...setup, players: mode.players, online: null })}
+                className={`p-3 rounded-lg text-left transition-colors ${
+                  isSelected ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-800'
+                }`}
+              >
+                <div className="font-semibold flex items-center gap-2">
+                  {getModeIcon(mode.players)}
+                  {mode.label}
+                </div>
+                <div className="text-sm opacity-80 mt-1">{mode.description}</div>
+              </button>
+            );
+          })}
+        </div>
+
+        <h3 className="font-semibold text-gray-800 mt-6 mb-3 flex items-center gap-2">
+          <Globe className="w-5 h-5" />
+          Online
+        </h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <button
+            onClick={() => setSetup({ ...setup, online: { mode: 'create' } })}
+            className={`p-3 rounded-lg text-left transition-colors ${
+              setup.online?.mode === 'create' ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-800'
+            }`}
+          >
+            <div className="font-semibold">Create Room</div>
+            <div className="text-sm opacity-80 mt-1">Play White and share the invite code.</div>
+          </button>
+          <div
+            className={`p-3 rounded-lg transition-colors ${
+              setup.online?.mode === 'join' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-800'
+            }`}
+          >
+            <div className="font-semibold">Join Room</div>
+            <input
+              type="text"
+              value={joinCode}
+              placeholder="Invite code"
+              maxLength={6}
+              onFocus={() => setup.online?.mode !== 'join' &&
+                setSetup({ ...setup, online: { mode: 'join', code: '', asSpectator: false } })}
+              onChange={(event) => setSetup({
+                ...setup,
+                online: {
+                  mode: 'join',
+                  code: event.target.value.toUpperCase(),
+                  asSpectator: setup.online?.mode === 'join' && setup.online.asSpectator
+                }
+              })}
+              className="mt-2 w-full px-2 py-1 rounded text-gray-800 uppercase tracking-widest border border-gray-300"
+            />
+            {setup.online?.mode === 'join' && (
+              <label className="flex items-center gap-2 mt-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={setup.online.asSpectator}
+                  onChange={(event) => setSetup({ ...setup, online: { mode: 'join', code: joinCode, asSpectator: event.target.checked } })}
+                />
+                Watch as a spectator
+              </label>
+            )}
+          </div>
+        </div>
+
+        {isHotSeat && (
+          <label className="flex items-center gap-2 mt-4 text-gray-700">
+            <input
+              type="checkbox"
+              checked={setup.flipBoardEachTurn}
+              onChange={(event) => setSetup({ ...setup, flipBoardEachTurn: event.target.checked })}
+            />
+            Flip the board each turn
+          </label>
+        )}
+
+        {setup.online?.mode !== 'join' && (
+          <div className="mt-4">
+            <h3 className="font-semibold text-gray-800 mb-2 flex items-center gap-2">
+              <Zap className="w-5 h-5" />
+              Power-up Inventory
+            </h3>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                Slots
+                <select
+                  value={setup.inventory.slots}
+                  onChange={(event) => setSetup({ ...setup, inventory: { ...setup.inventory, slots: Number(event.target.value) } })}
+                  className="px-2 py-1 rounded border border-gray-300"
+                >
+                  {Array.from({ length: MAX_INVENTORY_SLOTS }, (_, index) => index + 1).map(slots => (
+                    <option key={slots} value={slots}>{slots}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                Held power-ups expire after
+                <select
+                  value={setup.inventory.heldTurns}
+                  onChange={(event) => setSetup({ ...setup, inventory: { ...setup.inventory, heldTurns: Number(event.target.value) } })}
+                  className="px-2 py-1 rounded border border-gray-300"
+                >
+                  {HELD_TURN_CHOICES.map(turns => (
+                    <option key={turns} value={turns}>{turns === 0 ? 'never' : `${turns} moves`}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={setup.inventory.hidden}
+                  onChange={(event) => setSetup({ ...setup, inventory: { ...setup.inventory, hidden: event.target.checked } })}
+                />
+                Hide each side's power-ups from the other
+              </label>
+            </div>
+          </div>
+        )}
+
+        {setup.online?.mode !== 'join' && (
+          <div className="mt-4">
+            <label className="block text-sm font-semibold text-gray-700 mb-1" htmlFor="shrink-pattern">
+              Shrink pattern
+            </label>
+            <select
+              id="shrink-pattern"
+              value={setup.shrinkPattern}
+              onChange={(event) => setSetup({ ...setup, shrinkPattern: event.target.value })}
+              className="w-full px-3 py-2 rounded border border-gray-300 text-sm"
+            >
+              {getShrinkPatterns().map(pattern => (
+                <option key={pattern.id} value={pattern.id}>{pattern.name}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">{getShrinkPattern(setup.shrinkPattern)?.description}</p>
+            <label className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={setup.voidRespawn}
+                onChange={(event) => setSetup({ ...setup, voidRespawn: event.target.checked })}
+              />
+              Pieces that fall into the void can respawn
+            </label>
+          </div>
+        )}
+
+        {setup.online?.mode !== 'join' && (
+          <div className="mt-4 flex flex-wrap items-center gap-4 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              Respawned pieces land
+              <select
+                value={setup.respawnRules.placement}
+                onChange={(event) => setSetup({
+                  ...setup,
+                  respawnRules: { ...setup.respawnRules, placement: event.target.value === 'home' ? 'home' : 'random' }
+                })}
+                className="px-2 py-1 rounded border border-gray-300"
+              >
+                <option value="random">anywhere at random</option>
+                <option value="home">where their owner picks, near home</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Type
+              <select
+                value={setup.respawnRules.draft}
+                onChange={(event) => setSetup({ ...setup, respawnRules: { ...setup.respawnRules, draft: Number(event.target.value) } })}
+                className="px-2 py-1 rounded border border-gray-300"
+              >
+                {DRAFT_SIZES.map(size => (
+                  <option key={size} value={size}>{size === 0 ? 'rolled at random' : `picked from ${size} rolled`}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        )}
+
+        {!setup.online && (
+          <div className="mt-4">
+            <label className="block text-sm font-semibold text-gray-700 mb-1" htmlFor="start-position">
+              Start from position (optional)
+            </label>
+            <textarea
+              id="start-position"
+              value={setup.startPosition ?? ''}
+              placeholder="rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1 BR1"
+              rows={2}
+              onChange={(event) => setSetup({ ...setup, startPosition: event.target.value.trim() || null })}
+              className="w-full px-2 py-1 rounded border border-gray-300 font-mono text-xs text-gray-800"
+            />
+            {positionError && <div className="text-sm text-red-600 mt-1">{positionError}</div>}
+          </div>
+        )}
+
+        <div className="mt-6 text-center">
+          <button
+            onClick={() => onStart(setup)}
+            disabled={!canStart}
+            className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 transition-colors font-semibold disabled:opacity-50"
+          >
+            {setup.online ? 'Connect' : 'Start Game'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { GameState, Move, PowerUp } from '../types/chess';
+import { getPowerUpDefinition } from '../utils/powerupRegistry';
+import { getHeldPowerUps, getInventorySlots } from '../utils/powerupLogic';
+
+interface PickupChoiceModalProps {
+  gameState: GameState;
+  pickup: { move: Move; powerUp: PowerUp } | null;
+  // The held power-up to give up, or null to leave the new one on the board
+  onChoose: (discardType: string | null) => void;
+  onCancel: () => void;
+}
+
+export function PickupChoiceModal({ gameState, pickup, onChoose, onCancel }: PickupChoiceModalProps) {
+  if (!pickup) return null;
+
+  const offered = getPowerUpDefinition(pickup.powerUp.type);
+  const slots = getInventorySlots(getHeldPowerUps(gameState, pickup.move.piece.color));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 max-w-md w-full">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold text-gray-800">Inventory Full</h2>
+          <button onClick={onCancel} className="text-gray-500 hover:text-gray-700 text-xl font-bold">×</button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Swap one of your power-ups for the {offered?.icon} {offered?.name ?? pickup.powerUp.type} on this square?
+        </p>
+
+        <div className="space-y-2">
+          {slots.map(([powerUp]) => {
+            const definition = getPowerUpDefinition(powerUp.type);
+            return (
+              <button
+                key={powerUp.type}
+                onClick={() => onChoose(powerUp.type)}
+                className="w-full flex items-center gap-3 p-2 rounded-lg bg-yellow-100 hover:bg-yellow-200 text-left text-gray-800"
+              >
+                <span className="text-xl">{definition?.icon ?? '✨'}</span>
+                Discard {definition?.name ?? powerUp.type}
+              </button>
+            );
+          })}
+          <button
+            onClick={() => onChoose(null)}
+            className="w-full p-2 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-800 font-semibold"
+          >
+            Keep mine, leave it on the board
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
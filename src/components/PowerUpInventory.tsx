@@ -0,0 +1,102 @@
+import { GameState, PieceColor } from '../types/chess';
+import { getPowerUpDefinition } from '../utils/powerupRegistry';
+import { getHeldPowerUps, getInventorySlots } from '../utils/powerupLogic';
+import { Zap } from 'lucide-react';
+
+interface PowerUpInventoryProps {
+  gameState: GameState;
+  color: PieceColor;
+  title: string;
+  // Shows only how many power-ups are held, as the other side sees a hidden inventory
+  isHidden?: boolean;
+  // Use and Discard are offered only while the owner may act
+  canAct?: boolean;
+  onUse?: (powerUpType: string) => void;
+  onDiscard?: (powerUpType: string) => void;
+}
+
+export function PowerUpInventory({ gameState, color, title, isHidden = false, canAct = false, onUse, onDiscard }: PowerUpInventoryProps) {
+  const held = getHeldPowerUps(gameState, color);
+  const { slots, heldTurns } = gameState.inventoryRules;
+  // Types the viewer may not see arrive unknown from the game server
+  const isSecret = isHidden || held.some(powerUp => !getPowerUpDefinition(powerUp.type));
+  const filled = isSecret ? [] : getInventorySlots(held);
+
+  return (
+    <div className="bg-gradient-to-r from-yellow-100 to-yellow-200 rounded-lg shadow-lg p-4 border-2 border-yellow-400">
+      <h3 className="font-bold text-gray-800 mb-3 flex items-center gap-2">
+        <Zap className="w-5 h-5 text-yellow-600" />
+        {title}
+        <span className="ml-auto text-xs font-normal text-gray-600">
+          {isSecret ? `${held.length} held` : `${filled.length}/${slots} slots`}
+        </span>
+      </h3>
+
+      {isSecret ? (
+        <div className="flex flex-wrap gap-2">
+          {held.map(powerUp => (
+            <div
+              key={powerUp.id}
+              className="w-10 h-10 rounded-lg bg-yellow-300 border border-yellow-500 flex items-center justify-center text-xl font-bold text-yellow-800"
+              title="Hidden power-up"
+            >
+              ?
+            </div>
+          ))}
+          {held.length === 0 && <div className="text-sm text-gray-600">No power-ups</div>}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {Array.from({ length: Math.max(slots, filled.length) }, (_, index) => {
+            const copies = filled[index];
+            if (!copies) {
+              return (
+                <div key={`empty-${index}`} className="h-12 rounded-lg border-2 border-dashed border-yellow-400 flex items-center justify-center text-xs text-gray-500">
+                  Empty slot
+                </div>
+              );
+            }
+
+            const [powerUp] = copies;
+            const definition = getPowerUpDefinition(powerUp.type);
+            return (
+              <div key={powerUp.type} className="flex items-center justify-between gap-3 bg-white bg-opacity-60 rounded-lg p-2">
+                <div className="flex items-center gap-3">
+                  <span className="text-2xl">{definition?.icon ?? '✨'}</span>
+                  <div>
+                    <div className="font-semibold text-gray-800">
+                      {definition?.name ?? powerUp.type}
+                      {copies.length > 1 && <span className="ml-1 text-sm text-yellow-700">×{copies.length}</span>}
+                    </div>
+                    <div className="text-xs text-gray-600">
+                      {heldTurns > 0
+                        ? `Expires in ${powerUp.turnsUntilDespawn} move${powerUp.turnsUntilDespawn === 1 ? '' : 's'}`
+                        : definition?.description}
+                    </div>
+                  </div>
+                </div>
+                {canAct && (
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => onUse?.(powerUp.type)}
+                      className="bg-yellow-500 hover:bg-yellow-600 text-white px-3 py-1 rounded-lg font-semibold transition-colors duration-200"
+                    >
+                      Use
+                    </button>
+                    <button
+                      onClick={() => onDiscard?.(powerUp.type)}
+                      className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-2 py-1 rounded-lg text-sm transition-colors duration-200"
+                      title="Throw this power-up away"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
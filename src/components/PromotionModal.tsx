@@ -0,0 +1,36 @@
+import { Move } from '../types/chess';
+import { ChessPiece } from './ChessPiece';
+
+interface PromotionModalProps {
+  moves: Move[] | null;
+  onSelect: (move: Move) => void;
+  onCancel: () => void;
+}
+
+export function PromotionModal({ moves, onSelect, onCancel }: PromotionModalProps) {
+  if (!moves || moves.length === 0) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-gray-800">Promote Pawn</h2>
+          <button onClick={onCancel} className="text-gray-500 hover:text-gray-700 text-xl font-bold">×</button>
+        </div>
+
+        <div className="flex gap-3">
+          {moves.map(move => move.promotion && (
+            <button
+              key={move.promotion}
+              onClick={() => onSelect(move)}
+              className="w-16 h-16 bg-amber-800 hover:bg-amber-700 rounded-lg flex items-center justify-center transition-colors"
+              title={move.promotion}
+            >
+              <ChessPiece piece={{ ...move.piece, type: move.promotion }} />
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
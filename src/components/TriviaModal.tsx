@@ -1,7 +1,5 @@
 import React from 'react';
 import { TriviaTile } from '../types/chess';
-import { getPowerUpDescription } from '../utils/powerupLogic';
-import { Shield, Zap, Target, ArrowRight } from 'lucide-react';
 
 interface TriviaModalProps {
   isOpen: boolean;
@@ -0,0 +1,136 @@
+import { GameAction, GameState, InventoryRules, Move, PieceColor, PieceType, Position, RespawnRules } from '../types/chess';
+import {
+  ClientMessage,
+  ServerMessage,
+  OnlineRole,
+  encodeMessage,
+  decodeMessage,
+  fromWireState
+} from './protocol';
+
+const INITIAL_RECONNECT_DELAY_MS = 500;
+const MAX_RECONNECT_DELAY_MS = 5000;
+
+export interface OnlineSession {
+  code: string;
+  role: OnlineRole;
+  token: string;
+}
+
+export interface OnlineClientHandlers {
+  onJoined?: (session: OnlineSession) => void;
+  onState?: (gameState: GameState, events: string[], actions: GameAction[]) => void;
+  onPresence?: (connected: Record<PieceColor, boolean>, spectators: number) => void;
+  onConnectionChange?: (isConnected: boolean) => void;
+  onError?: (message: string) => void;
+}
+
+export interface OnlineClientOptions {
+  // Lets headless clients (tests, bots) plug in the `ws` package
+  WebSocketImpl?: typeof WebSocket;
+  // Resume an earlier session, e.g. after a page reload
+  session?: { code: string; token: string };
+}
+
+export interface OnlineClient {
+  createRoom: (inventory?: InventoryRules, shrinkPattern?: string, voidRespawn?: boolean, respawnRules?: RespawnRules) => void;
+  joinRoom: (code: string, asSpectator?: boolean) => void;
+  sendMove: (move: Move) => void;
+  usePowerUp: (powerUpType: string, target?: Position, pieceType?: PieceType) => void;
+  discardPowerUp: (powerUpType: string) => void;
+  evacuate: (to: Position) => void;
+  placeRespawn: (pieceType: PieceType, to?: Position) => void;
+  getSession: () => OnlineSession | null;
+  close: () => void;
+}
+
+export function createOnlineClient(
+  url: string,
+  handlers: OnlineClientHandlers,
+  options: OnlineClientOptions = {}
+): OnlineClient {
+  const WebSocketImpl = options.WebSocketImpl ?? WebSocket;
+  let socket: WebSocket | null = null;
+  let session: OnlineSession | null = null;
+  let resumeFrom = options.session ?? null;
+  let outbox: ClientMessage[] = [];
+  let reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let isClosed = false;
+
+  const handleMessage = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'joined':
+        session = { code: message.code, role: message.role, token: message.token };
+        resumeFrom = { code: message.code, token: message.token };
+        handlers.onJoined?.(session);
+        break;
+      case 'state':
+        handlers.onState?.(fromWireState(message.gameState), message.events, message.actions);
+        break;
+      case 'presence':
+        handlers.onPresence?.(message.connected, message.spectators);
+        break;
+      case 'error':
+        handlers.onError?.(message.message);
+        break;
+    }
+  };
+
+  const connect = () => {
+    socket = new WebSocketImpl(url);
+
+    socket.onopen = () => {
+      reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+      handlers.onConnectionChange?.(true);
+
+      if (resumeFrom) {
+        socket?.send(encodeMessage({ type: 'rejoin', ...resumeFrom }));
+      }
+      outbox.forEach(message => socket?.send(encodeMessage(message)));
+      outbox = [];
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      const message = decodeMessage<ServerMessage>(event.data);
+      if (message) handleMessage(message);
+    };
+
+    socket.onclose = () => {
+      handlers.onConnectionChange?.(false);
+      socket = null;
+      if (isClosed) return;
+
+      // Back off between attempts; the session token lets the server hand back our seat
+      reconnectTimer = setTimeout(connect, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+    };
+  };
+
+  const send = (message: ClientMessage) => {
+    if (socket && socket.readyState === WebSocketImpl.OPEN) {
+      socket.send(encodeMessage(message));
+    } else {
+      outbox.push(message);
+    }
+  };
+
+  connect();
+
+  return {
+    createRoom: (inventory, shrinkPattern, voidRespawn, respawnRules) =>
+      send({ type: 'createRoom', inventory, shrinkPattern, voidRespawn, respawnRules }),
+    joinRoom: (code, asSpectator) => send({ type: 'joinRoom', code, asSpectator }),
+    sendMove: (move) => send({ type: 'move', move }),
+    usePowerUp: (powerUpType, target, pieceType) => send({ type: 'usePowerUp', powerUpType, target, pieceType }),
+    discardPowerUp: (powerUpType) => send({ type: 'discardPowerUp', powerUpType }),
+    evacuate: (to) => send({ type: 'evacuate', to }),
+    placeRespawn: (pieceType, to) => send({ type: 'placeRespawn', pieceType, to }),
+    getSession: () => session,
+    close: () => {
+      isClosed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+    }
+  };
+}
@@ -0,0 +1,154 @@
+import { GameAction, GameState, InventoryRules, Move, PieceColor, PieceType, Position, PowerUp, PlayerController, RespawnRules } from '../types/chess';
+import { getPowerUpDefinition } from '../utils/powerupRegistry';
+
+export type OnlineRole = PieceColor | 'spectator';
+
+// Stands in for the type of a power-up the viewer may not see
+export const HIDDEN_POWER_UP_TYPE = 'hidden';
+
+// GameState holds Sets and a Map, which JSON cannot carry; this is its wire form
+export type WireGameState = Omit<
+  GameState,
+  'shrunkSquares' | 'trapSquares' | 'revealedTraps' | 'stunnedPieces' | 'shieldedPieces' | 'frozenPieces' | 'playerPowerUps' |
+  'seed' | 'rngState'
+> & {
+  // Withheld from players until the game is over
+  seed?: number;
+  rngState?: number;
+  shrunkSquares: string[];
+  trapSquares: [string, PieceColor][];
+  revealedTraps: string[];
+  stunnedPieces: string[];
+  shieldedPieces: [string, number][];
+  frozenPieces: [string, number][];
+  playerPowerUps: [PieceColor, PowerUp[]][];
+};
+
+export type ClientMessage =
+  | { type: 'createRoom'; inventory?: InventoryRules; shrinkPattern?: string; voidRespawn?: boolean; respawnRules?: RespawnRules }
+  | { type: 'joinRoom'; code: string; asSpectator?: boolean }
+  | { type: 'rejoin'; code: string; token: string }
+  | { type: 'move'; move: Move }
+  | { type: 'usePowerUp'; powerUpType: string; target?: Position; pieceType?: PieceType }
+  | { type: 'discardPowerUp'; powerUpType: string }
+  | { type: 'evacuate'; to: Position }
+  | { type: 'placeRespawn'; pieceType: PieceType; to?: Position };
+
+export type ServerMessage =
+  | { type: 'joined'; code: string; role: OnlineRole; token: string }
+  | { type: 'state'; gameState: WireGameState; events: string[]; actions: GameAction[] }
+  | { type: 'presence'; connected: Record<PieceColor, boolean>; spectators: number }
+  | { type: 'error'; message: string };
+
+// How a client's seat maps onto local controllers: its own colour is played here
+export function getOnlinePlayers(role: OnlineRole): Record<PieceColor, PlayerController> {
+  return {
+    white: role === 'white' ? 'human' : 'remote',
+    black: role === 'black' ? 'human' : 'remote'
+  };
+}
+
+// Traps are secret: while the game is on, a viewer is only sent their own and
+// those a Scout revealed. With hidden inventories the other side's power-ups are
+// sent without their types. The seed and generator state never leave the server
+// before the game ends, since they foretell every spawn, shrink and respawn roll.
+export function toWireState(gameState: GameState, viewer?: OnlineRole): WireGameState {
+  const isSecret = viewer !== undefined && gameState.gamePhase !== 'gameOver';
+  const { seed, rngState, ...visibleState } = gameState;
+  return {
+    ...visibleState,
+    ...(isSecret ? {} : { seed, rngState }),
+    shrunkSquares: [...gameState.shrunkSquares],
+    trapSquares: [...gameState.trapSquares]
+      .filter(([key, owner]) => !isSecret || owner === viewer || gameState.revealedTraps.has(key)),
+    revealedTraps: [...gameState.revealedTraps],
+    stunnedPieces: [...gameState.stunnedPieces],
+    shieldedPieces: [...gameState.shieldedPieces.entries()],
+    frozenPieces: [...gameState.frozenPieces.entries()],
+    playerPowerUps: [...gameState.playerPowerUps.entries()].map(([color, powerUps]): [PieceColor, PowerUp[]] => [
+      color,
+      isSecret && gameState.inventoryRules.hidden && color !== viewer
+        ? powerUps.map(powerUp => ({ ...powerUp, type: HIDDEN_POWER_UP_TYPE }))
+        : powerUps
+    ])
+  };
+}
+
+// An online client never draws from the generator itself, so a withheld one reads as 0
+export function fromWireState(wireState: WireGameState): GameState {
+  return {
+    ...wireState,
+    seed: wireState.seed ?? 0,
+    rngState: wireState.rngState ?? 0,
+    shrunkSquares: new Set(wireState.shrunkSquares),
+    trapSquares: new Map(wireState.trapSquares),
+    revealedTraps: new Set(wireState.revealedTraps),
+    stunnedPieces: new Set(wireState.stunnedPieces),
+    shieldedPieces: new Map(wireState.shieldedPieces),
+    frozenPieces: new Map(wireState.frozenPieces),
+    playerPowerUps: new Map(wireState.playerPowerUps)
+  };
+}
+
+// The same secrets apply to the action log: other players' secret targets, such as
+// trap squares, are withheld, and so are their discards from hidden inventories
+export function toVisibleActions(actions: GameAction[], gameState: GameState, viewer: OnlineRole): GameAction[] {
+  if (gameState.gamePhase === 'gameOver') return actions;
+  return actions.map((action): GameAction => {
+    if (action.type === 'usePowerUp' && getPowerUpDefinition(action.powerUpType)?.isTargetSecret && action.color !== viewer) {
+      return { type: 'usePowerUp', color: action.color, powerUpType: action.powerUpType };
+    }
+    if (action.type === 'discardPowerUp' && gameState.inventoryRules.hidden && action.color !== viewer) {
+      return { ...action, powerUpType: HIDDEN_POWER_UP_TYPE };
+    }
+    return action;
+  });
+}
+
+export function encodeMessage(message: ClientMessage | ServerMessage): string {
+  return JSON.stringify(message);
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPosition = (value: unknown): value is Position =>
+  isObject(value) && typeof value.row === 'number' && typeof value.col === 'number';
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+
+// Client messages come off the network, so every field a handler reads is checked here;
+// the server's own message types fall through untouched
+function hasValidShape(message: Record<string, unknown>): boolean {
+  switch (message.type) {
+    case 'createRoom':
+      return isOptional(message.inventory, isObject) && isOptional(message.shrinkPattern, value => typeof value === 'string') &&
+        isOptional(message.voidRespawn, value => typeof value === 'boolean') && isOptional(message.respawnRules, isObject);
+    case 'joinRoom':
+      return typeof message.code === 'string' && isOptional(message.asSpectator, value => typeof value === 'boolean');
+    case 'rejoin':
+      return typeof message.code === 'string' && typeof message.token === 'string';
+    case 'move':
+      return isObject(message.move) && isPosition(message.move.from) && isPosition(message.move.to);
+    case 'usePowerUp':
+      return typeof message.powerUpType === 'string' && isOptional(message.target, isPosition) &&
+        isOptional(message.pieceType, value => typeof value === 'string');
+    case 'discardPowerUp':
+      return typeof message.powerUpType === 'string';
+    case 'evacuate':
+      return isPosition(message.to);
+    case 'placeRespawn':
+      return typeof message.pieceType === 'string' && isOptional(message.to, isPosition);
+    default:
+      return true;
+  }
+}
+
+export function decodeMessage<T extends ClientMessage | ServerMessage>(data: unknown): T | null {
+  try {
+    const parsed = JSON.parse(String(data));
+    return isObject(parsed) && typeof parsed.type === 'string' && hasValidShape(parsed) ? parsed as T : null;
+  } catch {
+    return null;
+  }
+}
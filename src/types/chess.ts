@@ -12,17 +12,27 @@ export interface ChessPiece {
   transformationType?: 'fusion' | 'veteran';
   fusionMoves?: PieceType[];
   isTeleporting?: boolean;
-  isEmergency?: boolean;
   isRespawning?: boolean;
 }
 
 export interface PowerUp {
   id: string;
-  type: 'teleport' | 'shield' | 'extraMove' | 'trap';
+  // Id of a registered PowerUpDefinition
+  type: string;
   position: Position;
+  // On the board: turns until it vanishes. Held: the holder's moves until it expires.
   turnsUntilDespawn: number;
 }
 
+export interface InventoryRules {
+  // Power-up types a side can hold at once; copies of one type stack in a single slot
+  slots: number;
+  // Moves of its holder a power-up lasts unused before it expires; 0 keeps it forever
+  heldTurns: number;
+  // Each side only learns how many power-ups the other holds, not which
+  hidden: boolean;
+}
+
 export interface TriviaTile {
   id: string;
   position: Position;
@@ -37,23 +47,97 @@ export interface ShrinkBlock {
   isWarning: boolean;
 }
 
+// One wave of a shrink pattern: either fixed squares, named like "a1", or a number
+// of squares bitten at random from the edge of what is left of the board. Mirrored
+// bites also take the square facing each pick across the middle of the board.
+export type ShrinkWave =
+  | { type: 'squares'; squares: string[] }
+  | { type: 'edgeBites'; count: number; mirrored: boolean };
+
+export interface ShrinkPattern {
+  id: string;
+  name: string;
+  description: string;
+  // Applied in order, one wave per shrink cycle
+  waves: ShrinkWave[];
+}
+
+export interface RespawnRules {
+  // 'random' drops a returning piece on any safe square; 'home' lets its owner pick
+  // one in their home zone
+  placement: 'random' | 'home';
+  // Piece types rolled for the owner to pick from; 0 rolls the returning type outright
+  draft: number;
+}
+
+// A lost piece on its way back, waiting for its owner to pick its type and square
+export interface PendingRespawn {
+  piece: ChessPiece;
+  // The rolled types on offer, just one without a draft
+  types: PieceType[];
+}
+
+// A piece that fell with a shrinking square, where it stood and the turn it fell on
+export interface VoidPiece {
+  piece: ChessPiece;
+  position: Position;
+  turnCount: number;
+}
+
+export type DrawReason =
+  | 'stalemate'
+  | 'threefold-repetition'
+  | 'fifty-move-rule'
+  | 'insufficient-material'
+  | 'both-kings-lost';
+
 export interface GameState {
   board: (ChessPiece | null)[][];
   currentPlayer: PieceColor;
+  // Extra moves the side to move still has after its current move
+  extraMoves: number;
   gamePhase: 'setup' | 'playing' | 'shrinking' | 'gameOver';
   winner: PieceColor | 'draw' | null;
+  drawReason: DrawReason | null;
   shrunkSquares: Set<string>;
   capturedPieces: ChessPiece[];
+  // Pieces lost to the shrink rather than captured, in the order they fell
+  voidPieces: VoidPiece[];
+  // Whether pieces lost to the shrink join the respawn queue like captured ones
+  voidRespawn: boolean;
   turnCount: number;
-  timeUntilShrink: number;
-  timeUntilRespawn: number;
   powerUps: PowerUp[];
   triviaTiles: TriviaTile[];
   shrinkBlocks: ShrinkBlock[];
-  playerPowerUps: Map<PieceColor, PowerUp | null>;
+  // Id of the registered ShrinkPattern the board collapses by
+  shrinkPattern: string;
+  // Squares of kings caught by a shrink, still standing on their fallen square until
+  // their owner picks where they flee, first caught first
+  pendingEvacuations: Position[];
+  // Held power-ups of each side, oldest first
+  playerPowerUps: Map<PieceColor, PowerUp[]>;
+  inventoryRules: InventoryRules;
   respawnQueue: { player: PieceColor; piece: ChessPiece }[];
-  trapSquares: Set<string>;
-  shieldedPieces: Set<string>;
+  respawnRules: RespawnRules;
+  // Set while the owner of a returning piece still has to choose for it; like an
+  // evacuation it comes before anything else
+  pendingRespawn: PendingRespawn | null;
+  // Armed trap squares and the player who set each one; traps are secret to their owner
+  trapSquares: Map<string, PieceColor>;
+  // Trap squares a Scout has uncovered for everyone
+  revealedTraps: Set<string>;
+  // Pieces that may not move on their side's next turn (kings caught in a trap)
+  stunnedPieces: Set<string>;
+  // Shielded piece ids and how many opponent moves each shield still lasts
+  shieldedPieces: Map<string, number>;
+  // Frozen piece ids and how many of their own side's moves each still sits out
+  frozenPieces: Map<string, number>;
+  enPassantTarget: Position | null;
+  positionHistory: string[];
+  halfmoveClock: number;
+  // Seed the game started from and the current state of its random generator
+  seed: number;
+  rngState: number;
 }
 
 export interface Move {
@@ -62,4 +146,111 @@ export interface Move {
   piece: ChessPiece;
   captured?: ChessPiece;
   usedPowerUp?: PowerUp;
-}
\ No newline at end of file
+  // The own piece a Swap sends back to the from square
+  swappedWith?: ChessPiece;
+  promotion?: PieceType;
+  isCastling?: boolean;
+  isEnPassant?: boolean;
+}
+
+// What a power-up is aimed at when used. A 'move' power-up is spent by making one
+// of the special moves its definition generates rather than by picking a target.
+export type PowerUpTargeting = 'none' | 'ownPiece' | 'enemyPiece' | 'emptySquare' | 'move';
+
+export interface PowerUpAIContext {
+  gameState: GameState;
+  // The line the search expects without the power-up: its own move, then the reply
+  principalVariation: Move[];
+  // Search score of a position for its side to move, as the computer sees it
+  evaluate: (gameState: GameState) => number;
+  // What keeping the power-up in hand is worth, in centipawns
+  holdValue: number;
+}
+
+export interface PowerUpAIChoice {
+  target?: Position;
+  pieceType?: PieceType;
+  // Shown to everyone after "<player> ", so a secret target must not be named
+  message: string;
+}
+
+export interface PowerUpDefinition {
+  id: string;
+  name: string;
+  // One line for pickups and the held power-up panel
+  description: string;
+  // The full rules, for the rules legend
+  rules: string;
+  icon: string;
+  // Relative chance of being picked when a power-up spawns
+  spawnWeight: number;
+  targeting: PowerUpTargeting;
+  // Shown while the player picks a target
+  targetPrompt?: string;
+  // Other players never learn the target while the game is on
+  isTargetSecret?: boolean;
+  // Captured pieces, one per type, the holder picks from before aiming, like Revive's
+  getPieceChoices?: (gameState: GameState, color: PieceColor) => ChessPiece[];
+  // Squares the holder may aim at, for the picked piece type if there is a choice;
+  // required unless targeting is 'none' or 'move'
+  getTargets?: (gameState: GameState, color: PieceColor, pieceType?: PieceType) => Position[];
+  // The special moves of a 'move' power-up, each carrying it as usedPowerUp
+  getMoves?: (gameState: GameState, color: PieceColor) => Move[];
+  // The effect on an already validated target, or null when it cannot be used now
+  apply: (gameState: GameState, color: PieceColor, target?: Position, pieceType?: PieceType) => GameState | null;
+  // Whether, and where, the computer should fire it this turn
+  chooseForComputer?: (context: PowerUpAIContext) => PowerUpAIChoice | null;
+}
+
+export type AIDifficulty = 'beginner' | 'casual' | 'intermediate' | 'advanced' | 'master';
+export type AIPersonality = 'balanced' | 'aggressor' | 'survivor' | 'collector';
+
+export interface AISettings {
+  difficulty: AIDifficulty;
+  personality: AIPersonality;
+}
+
+// 'remote' seats are played from another browser through the game server
+export type PlayerController = 'human' | 'computer' | 'remote';
+
+export type OnlineSetup =
+  | { mode: 'create'; inventory?: InventoryRules; shrinkPattern?: string; voidRespawn?: boolean; respawnRules?: RespawnRules }
+  | { mode: 'join'; code: string; asSpectator: boolean };
+
+export interface GameSetup {
+  players: Record<PieceColor, PlayerController>;
+  flipBoardEachTurn: boolean;
+  online: OnlineSetup | null;
+  // Position notation to start from instead of the usual opening setup
+  startPosition: string | null;
+  inventory: InventoryRules;
+  shrinkPattern: string;
+  voidRespawn: boolean;
+  respawnRules: RespawnRules;
+}
+
+// Everything a player can do on their turn; replaying these from the seed rebuilds a game
+export type GameAction =
+  | { type: 'move'; move: Move }
+  | { type: 'usePowerUp'; color: PieceColor; powerUpType: string; target?: Position; pieceType?: PieceType }
+  | { type: 'discardPowerUp'; color: PieceColor; powerUpType: string }
+  | { type: 'trivia'; color: PieceColor; correct: boolean }
+  | { type: 'pass'; color: PieceColor }
+  | { type: 'evacuate'; color: PieceColor; to: Position }
+  // The square is left out when returning pieces are placed at random
+  | { type: 'placeRespawn'; color: PieceColor; pieceType: PieceType; to?: Position };
+
+export interface GameRecord {
+  seed: number;
+  startPosition?: string;
+  // Replaces the inventory rules of the start state when set
+  inventory?: InventoryRules;
+  // Replaces the shrink pattern of the start state when set
+  shrinkPattern?: string;
+  // Replaces the void respawn rule of the start state when set
+  voidRespawn?: boolean;
+  // Replaces the respawn rules of the start state when set
+  respawnRules?: RespawnRules;
+  tags: Record<string, string>;
+  actions: GameAction[];
+}
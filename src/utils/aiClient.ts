@@ -0,0 +1,121 @@
+import { AISettings, GameState } from '../types/chess';
+import { getComputerAnalysis } from './gameLogic';
+import { ComputerAnalysis } from './aiPowerUpLogic';
+
+export interface AIWorkerRequest {
+  type: 'search';
+  requestId: number;
+  gameState: GameState;
+  settings: AISettings;
+}
+
+export type AIWorkerResponse =
+  | ({ type: 'result'; requestId: number } & ComputerAnalysis)
+  | { type: 'error'; requestId: number; message: string };
+
+export interface AIClient {
+  // Resolves with null when the search was cancelled before it finished
+  search: (gameState: GameState, settings: AISettings) => Promise<ComputerAnalysis | null>;
+  cancel: () => void;
+  dispose: () => void;
+}
+
+interface PendingSearch {
+  requestId: number;
+  resolve: (result: ComputerAnalysis | null) => void;
+  reject: (error: Error) => void;
+}
+
+export function createAIClient(): AIClient {
+  let worker: Worker | null = null;
+  let pending: PendingSearch | null = null;
+  let nextRequestId = 1;
+
+  const settle = (result: ComputerAnalysis | null) => {
+    const current = pending;
+    pending = null;
+    current?.resolve(result);
+  };
+
+  const handleMessage = (event: MessageEvent<AIWorkerResponse>) => {
+    const response = event.data;
+    if (!pending || response.requestId !== pending.requestId) return;
+
+    if (response.type === 'error') {
+      const current = pending;
+      pending = null;
+      current.reject(new Error(response.message));
+      return;
+    }
+
+    const { move, score, depth, principalVariation, nodes, powerUp, evacuation, respawn } = response;
+    settle({ move, score, depth, principalVariation, nodes, powerUp, evacuation, respawn });
+  };
+
+  const getWorker = (): Worker | null => {
+    if (worker) return worker;
+    if (typeof Worker === 'undefined') return null;
+
+    try {
+      worker = new Worker(new URL('../workers/aiWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = handleMessage;
+      worker.onerror = (event) => {
+        console.error('AI worker failed:', event.message);
+        const current = pending;
+        pending = null;
+        worker?.terminate();
+        worker = null;
+        current?.reject(new Error(event.message));
+      };
+      return worker;
+    } catch (error) {
+      console.warn('Web Workers unavailable, searching on the main thread:', error);
+      return null;
+    }
+  };
+
+  const cancel = () => {
+    // A synchronous search cannot be interrupted from outside, so stop the worker outright
+    if (pending && worker) {
+      worker.terminate();
+      worker = null;
+    }
+    settle(null);
+  };
+
+  const search = (gameState: GameState, settings: AISettings): Promise<ComputerAnalysis | null> => {
+    cancel();
+
+    const requestId = nextRequestId++;
+
+    return new Promise((resolve, reject) => {
+      pending = { requestId, resolve, reject };
+
+      const activeWorker = getWorker();
+      if (activeWorker) {
+        const request: AIWorkerRequest = { type: 'search', requestId, gameState, settings };
+        activeWorker.postMessage(request);
+        return;
+      }
+
+      // Fallback for environments without workers, such as unit tests
+      setTimeout(() => {
+        if (!pending || pending.requestId !== requestId) return;
+        try {
+          settle(getComputerAnalysis(gameState, settings));
+        } catch (error) {
+          pending = null;
+          reject(error instanceof Error ? error : new Error(String(error)));
+        }
+      }, 0);
+    });
+  };
+
+  const dispose = () => {
+    cancel();
+    worker?.terminate();
+    worker = null;
+  };
+
+  return { search, cancel, dispose };
+}
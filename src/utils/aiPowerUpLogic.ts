@@ -0,0 +1,93 @@
+import { GameState, Move, PieceType, Position, PowerUp, PowerUpAIContext, PowerUpDefinition } from '../types/chess';
+import { getSquareName } from './chessLogic';
+import { getBlockedPickup, getHeldPowerUps, getInventorySlots } from './powerupLogic';
+import { getPowerUpDefinition } from './powerupRegistry';
+import { DEFAULT_WEIGHTS, SearchOptions, SearchResult, searchBestMove } from './searchLogic';
+
+// A heuristic gets about this many evaluations in the time one move search takes
+const EVALUATION_SHARE = 4;
+
+export interface ComputerPowerUpChoice {
+  powerUpType: string;
+  target?: Position;
+  // The captured piece it brings back, for a power-up like Revive
+  pieceType?: PieceType;
+  // Shown to everyone, so it never names the square of a trap
+  message: string;
+}
+
+export interface ComputerAnalysis extends SearchResult {
+  // A power-up to fire before searching again for the move itself
+  powerUp: ComputerPowerUpChoice | null;
+  // Where the computer's king caught by a shrink flees; given instead of a move
+  evacuation?: Position;
+  // The type and square the computer brings a lost piece back with; likewise instead of a move
+  respawn?: { pieceType: PieceType; to?: Position };
+}
+
+// Decides whether the computer should fire one of the power-ups it holds before it
+// moves, asking each held type's own heuristic in inventory order. `analysis` is
+// the search of the unchanged position, and every alternative a heuristic weighs is
+// scored by that same search. Power-ups spent by moving, like Teleport and Swap,
+// never come up here: the search already weighs those moves at its root.
+export function chooseComputerPowerUp(
+  gameState: GameState,
+  analysis: SearchResult,
+  options: SearchOptions
+): ComputerPowerUpChoice | null {
+  const definitions = getInventorySlots(getHeldPowerUps(gameState, gameState.currentPlayer))
+    .map(([powerUp]) => getPowerUpDefinition(powerUp.type))
+    .filter((definition): definition is PowerUpDefinition => !!definition?.chooseForComputer);
+  if (definitions.length === 0 || !analysis.move) return null;
+
+  // Noise would read as a gain or loss, and the time budget is shared by every heuristic
+  const quietOptions: SearchOptions = {
+    ...options,
+    randomness: 0,
+    powerUpMoves: [],
+    timeLimitMs: options.timeLimitMs !== undefined
+      ? options.timeLimitMs / (EVALUATION_SHARE * definitions.length)
+      : undefined
+  };
+  const context: PowerUpAIContext = {
+    gameState,
+    principalVariation: analysis.principalVariation,
+    evaluate: (state) => searchBestMove(state, quietOptions).score,
+    holdValue: (options.weights ?? DEFAULT_WEIGHTS).powerUpBonus
+  };
+
+  for (const definition of definitions) {
+    const choice = definition.chooseForComputer!(context);
+    if (choice) return { powerUpType: definition.id, ...choice };
+  }
+  return null;
+}
+
+// The held power-up the computer throws away to pick up the one its move lands on,
+// or null to leave that one on the board. A fresh power-up beats the held one
+// closest to expiring; when nothing expires the computer keeps what it has.
+export function chooseComputerDiscard(gameState: GameState, move: Move): string | null {
+  if (gameState.inventoryRules.heldTurns === 0 || !getBlockedPickup(gameState, move)) {
+    return null;
+  }
+
+  // Only slots that outlast the move are worth freeing
+  const lasting = getInventorySlots(getHeldPowerUps(gameState, move.piece.color))
+    .map(copies => copies
+      .slice(copies[0].type === move.usedPowerUp?.type ? 1 : 0)
+      .filter(powerUp => powerUp.turnsUntilDespawn > 1))
+    .filter(copies => copies.length > 0);
+  const expiring = lasting.reduce<PowerUp | null>(
+    (soonest, [powerUp]) => (!soonest || powerUp.turnsUntilDespawn < soonest.turnsUntilDespawn ? powerUp : soonest),
+    null
+  );
+  return expiring?.type ?? null;
+}
+
+// Describes a move that spends a power-up, like a teleport or a swap
+export function getPowerUpMoveMessage(move: Move): string {
+  if (move.swappedWith) {
+    return `SWAPPED ITS ${move.piece.type.toUpperCase()} AND ${move.swappedWith.type.toUpperCase()}`;
+  }
+  return `TELEPORTED ITS ${move.piece.type.toUpperCase()} TO ${getSquareName(move.to).toUpperCase()}`;
+}
@@ -0,0 +1,120 @@
+import { AIDifficulty, AIPersonality, AISettings } from '../types/chess';
+import { DEFAULT_WEIGHTS, EvaluationWeights } from './searchLogic';
+
+const STORAGE_KEY = 'chess-royale-ai-settings';
+
+export interface DifficultyProfile {
+  label: string;
+  description: string;
+  maxDepth: number;
+  timeLimitMs: number;
+  // Chance of ignoring the search and playing a random legal move
+  blunderRate: number;
+  // Random noise (centipawns) added to each candidate move
+  randomness: number;
+}
+
+export interface PersonalityProfile {
+  label: string;
+  description: string;
+  weights: EvaluationWeights;
+}
+
+export const DIFFICULTY_PROFILES: Record<AIDifficulty, DifficultyProfile> = {
+  beginner: {
+    label: 'Beginner',
+    description: 'Looks one move ahead and often blunders.',
+    maxDepth: 1,
+    timeLimitMs: 300,
+    blunderRate: 0.25,
+    randomness: 150
+  },
+  casual: {
+    label: 'Casual',
+    description: 'Sees simple threats but still makes mistakes.',
+    maxDepth: 2,
+    timeLimitMs: 500,
+    blunderRate: 0.1,
+    randomness: 60
+  },
+  intermediate: {
+    label: 'Intermediate',
+    description: 'Plays solid tactics with a little variety.',
+    maxDepth: 3,
+    timeLimitMs: 800,
+    blunderRate: 0.03,
+    randomness: 20
+  },
+  advanced: {
+    label: 'Advanced',
+    description: 'Searches deeper and rarely slips.',
+    maxDepth: 4,
+    timeLimitMs: 1200,
+    blunderRate: 0,
+    randomness: 5
+  },
+  master: {
+    label: 'Master',
+    description: 'Full strength search with no randomness.',
+    maxDepth: 6,
+    timeLimitMs: 2000,
+    blunderRate: 0,
+    randomness: 0
+  }
+};
+
+export const PERSONALITY_PROFILES: Record<AIPersonality, PersonalityProfile> = {
+  balanced: {
+    label: 'Balanced',
+    description: 'Weighs every part of the game evenly.',
+    weights: DEFAULT_WEIGHTS
+  },
+  aggressor: {
+    label: 'Aggressor',
+    description: 'Hunts captures and checks, even at some risk.',
+    weights: { ...DEFAULT_WEIGHTS, enemyMaterial: 1.3, checkBonus: 40 }
+  },
+  survivor: {
+    label: 'Survivor',
+    description: 'Stays clear of the shrink and keeps its king central.',
+    weights: { ...DEFAULT_WEIGHTS, shrinkSafety: 2.5, kingCentralization: 4 }
+  },
+  collector: {
+    label: 'Collector',
+    description: 'Goes out of its way for power-ups and trivia tiles.',
+    weights: { ...DEFAULT_WEIGHTS, powerUpBonus: 200, triviaBonus: 120 }
+  }
+};
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  difficulty: 'intermediate',
+  personality: 'balanced'
+};
+
+export function loadAISettings(): AISettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_AI_SETTINGS;
+
+    const parsed = JSON.parse(stored) as Partial<AISettings>;
+    return {
+      difficulty: parsed.difficulty && parsed.difficulty in DIFFICULTY_PROFILES
+        ? parsed.difficulty
+        : DEFAULT_AI_SETTINGS.difficulty,
+      personality: parsed.personality && parsed.personality in PERSONALITY_PROFILES
+        ? parsed.personality
+        : DEFAULT_AI_SETTINGS.personality
+    };
+  } catch (error) {
+    console.warn('Could not load AI settings:', error);
+    return DEFAULT_AI_SETTINGS;
+  }
+}
+
+export function saveAISettings(settings: AISettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Could not save AI settings:', error);
+  }
+}
@@ -1,4 +1,4 @@
-import { ChessPiece, PieceType, PieceColor, Position, Move } from '../types/chess';
+import { ChessPiece, PieceType, PieceColor, Position, Move, GameState } from '../types/chess';
 
 export const PIECE_VALUES = {
   pawn: 1,
@@ -9,6 +9,39 @@ export const PIECE_VALUES = {
   king: 100
 };
 
+// A fused piece is worth its two parts and a pawn more: one piece now carries both
+// threats, and no single move can fork them
+const FUSION_BONUS = 1;
+
+export function getPieceValue(piece: ChessPiece): number {
+  if (!piece.fusionMoves) return PIECE_VALUES[piece.type];
+  return piece.fusionMoves.reduce((value, type) => value + PIECE_VALUES[type], PIECE_VALUES[piece.type] + FUSION_BONUS);
+}
+
+export const PROMOTION_PIECES: PieceType[] = ['queen', 'rook', 'bishop', 'knight'];
+
+// Shields only forbid captures. A shielded piece still attacks, defends and gives
+// check as usual, so a check from a shielded piece must be blocked or escaped.
+// Kings are never shielded, which leaves checkmate exactly as in normal chess.
+// Stunned pieces cannot move but keep attacking, so a stunned king in check with
+// no other way out is mated. Frozen pieces are held in place the same way, which is
+// why they are passed along as stunned.
+export interface MoveGenerationOptions {
+  enPassantTarget?: Position | null;
+  shieldedPieces?: ReadonlyMap<string, number>;
+  stunnedPieces?: ReadonlySet<string>;
+}
+
+export function getMoveOptions(gameState: GameState): Required<MoveGenerationOptions> {
+  return {
+    enPassantTarget: gameState.enPassantTarget,
+    shieldedPieces: gameState.shieldedPieces,
+    stunnedPieces: gameState.frozenPieces.size > 0
+      ? new Set([...gameState.stunnedPieces, ...gameState.frozenPieces.keys()])
+      : gameState.stunnedPieces
+  };
+}
+
 export function isValidPosition(pos: Position): boolean {
   return pos.row >= 0 && pos.row < 8 && pos.col >= 0 && pos.col < 8;
 }
@@ -17,34 +50,84 @@ export function positionKey(pos: Position): string {
   return `${pos.row}-${pos.col}`;
 }
 
+export function getSquareName(pos: Position): string {
+  return `${'abcdefgh'[pos.col]}${8 - pos.row}`;
+}
+
+export function parseSquareName(name: string): Position | null {
+  const match = name.match(/^([a-h])([1-8])$/);
+  return match ? { row: 8 - Number(match[2]), col: match[1].charCodeAt(0) - 97 } : null;
+}
+
+export function formatMove(move: Move): string {
+  const promotion = move.promotion ? `=${move.promotion === 'knight' ? 'N' : move.promotion[0].toUpperCase()}` : '';
+  return `${getSquareName(move.from)}${move.captured ? 'x' : '-'}${getSquareName(move.to)}${promotion}`;
+}
+
 export function isValidMove(
   board: (ChessPiece | null)[][],
   from: Position,
   to: Position,
-  shrunkSquares: Set<string>
+  shrunkSquares: Set<string>,
+  options: MoveGenerationOptions = {}
 ): boolean {
   if (!isValidPosition(from) || !isValidPosition(to)) return false;
   if (shrunkSquares.has(positionKey(to))) return false;
   
   const piece = board[from.row][from.col];
   if (!piece) return false;
+  if (options.stunnedPieces?.has(piece.id)) return false;
   
   const target = board[to.row][to.col];
   if (target && target.color === piece.color) return false;
+  if (target && options.shieldedPieces?.has(target.id)) return false;
+  
+  if (isEnPassantCapture(board, piece, from, to, options.enPassantTarget)) {
+    return !options.shieldedPieces?.has(board[from.row][to.col]!.id);
+  }
   
   return isValidPieceMove(board, piece, from, to);
 }
 
+function isEnPassantCapture(
+  board: (ChessPiece | null)[][],
+  piece: ChessPiece,
+  from: Position,
+  to: Position,
+  enPassantTarget?: Position | null
+): boolean {
+  if (piece.type !== 'pawn' || !enPassantTarget) return false;
+  if (to.row !== enPassantTarget.row || to.col !== enPassantTarget.col) return false;
+  
+  const direction = piece.color === 'white' ? -1 : 1;
+  if (to.row - from.row !== direction || Math.abs(to.col - from.col) !== 1) return false;
+  
+  // The pawn that just double-stepped must still be there (it may have been lost to a shrink)
+  const victim = board[from.row][to.col];
+  return !!victim && victim.type === 'pawn' && victim.color !== piece.color && !board[to.row][to.col];
+}
+
+// A fused piece may move as any of the types it is made of
 function isValidPieceMove(
   board: (ChessPiece | null)[][],
   piece: ChessPiece,
   from: Position,
   to: Position
+): boolean {
+  return [piece.type, ...(piece.fusionMoves ?? [])].some(type => isValidMoveAs(board, piece, type, from, to));
+}
+
+function isValidMoveAs(
+  board: (ChessPiece | null)[][],
+  piece: ChessPiece,
+  type: PieceType,
+  from: Position,
+  to: Position
 ): boolean {
   const dx = to.col - from.col;
   const dy = to.row - from.row;
   
-  switch (piece.type) {
+  switch (type) {
     case 'pawn':
       return isValidPawnMove(board, piece, from, to, dx, dy);
     case 'rook':
@@ -160,7 +243,8 @@ function isPathClear(
 export function getAllPossibleMoves(
   board: (ChessPiece | null)[][],
   color: PieceColor,
-  shrunkSquares: Set<string>
+  shrunkSquares: Set<string>,
+  options: MoveGenerationOptions = {}
 ): Move[] {
   const moves: Move[] = [];
   
@@ -173,13 +257,21 @@ export function getAllPossibleMoves(
         for (let toRow = 0; toRow < 8; toRow++) {
           for (let toCol = 0; toCol < 8; toCol++) {
             const to = { row: toRow, col: toCol };
-            if (isValidMove(board, from, to, shrunkSquares)) {
-              moves.push({
-                from,
-                to,
-                piece,
-                captured: board[to.row][to.col]
-              });
+            if (isValidMove(board, from, to, shrunkSquares, options)) {
+              const isEnPassant = isEnPassantCapture(board, piece, from, to, options.enPassantTarget);
+              const captured = isEnPassant
+                ? board[from.row][to.col] || undefined
+                : board[to.row][to.col] || undefined;
+              
+              if (piece.type === 'pawn' && toRow === getPromotionRow(color)) {
+                PROMOTION_PIECES.forEach(promotion => {
+                  moves.push({ from, to, piece, captured, promotion });
+                });
+              } else {
+                moves.push(isEnPassant
+                  ? { from, to, piece, captured, isEnPassant }
+                  : { from, to, piece, captured });
+              }
             }
           }
         }
@@ -187,9 +279,101 @@ export function getAllPossibleMoves(
     }
   }
   
+  moves.push(...getCastlingMoves(board, color, shrunkSquares, options));
+  
+  return moves;
+}
+
+function getPromotionRow(color: PieceColor): number {
+  return color === 'white' ? 0 : 7;
+}
+
+function getCastlingMoves(
+  board: (ChessPiece | null)[][],
+  color: PieceColor,
+  shrunkSquares: Set<string>,
+  options: MoveGenerationOptions
+): Move[] {
+  const moves: Move[] = [];
+  const homeRow = color === 'white' ? 7 : 0;
+  const king = board[homeRow][4];
+  
+  if (!king || king.type !== 'king' || king.color !== color || king.hasMoved) return moves;
+  if (options.stunnedPieces?.has(king.id)) return moves;
+  if (shrunkSquares.has(positionKey({ row: homeRow, col: 4 }))) return moves;
+  
+  const opponentColor = color === 'white' ? 'black' : 'white';
+  if (isSquareAttacked(board, { row: homeRow, col: 4 }, opponentColor, shrunkSquares)) return moves;
+  
+  const sides = [
+    { rookCol: 7, kingCol: 6, between: [5, 6], kingPath: [5, 6] },
+    { rookCol: 0, kingCol: 2, between: [1, 2, 3], kingPath: [3, 2] }
+  ];
+  
+  for (const side of sides) {
+    const rook = board[homeRow][side.rookCol];
+    if (!rook || rook.type !== 'rook' || rook.color !== color || rook.hasMoved) continue;
+    
+    // Every square between king and rook must be empty and still part of the board
+    const pathBlocked = side.between.some(col =>
+      board[homeRow][col] !== null || shrunkSquares.has(positionKey({ row: homeRow, col }))
+    );
+    if (pathBlocked) continue;
+    
+    // The king may not pass through or land on an attacked square
+    const pathAttacked = side.kingPath.some(col =>
+      isSquareAttacked(board, { row: homeRow, col }, opponentColor, shrunkSquares)
+    );
+    if (pathAttacked) continue;
+    
+    moves.push({
+      from: { row: homeRow, col: 4 },
+      to: { row: homeRow, col: side.kingCol },
+      piece: king,
+      isCastling: true
+    });
+  }
+  
   return moves;
 }
 
+export function applyMoveToBoard(
+  board: (ChessPiece | null)[][],
+  move: Move
+): (ChessPiece | null)[][] {
+  const newBoard = board.map(row => [...row]);
+  
+  newBoard[move.to.row][move.to.col] = move.promotion
+    ? { ...move.piece, type: move.promotion, hasMoved: true }
+    : { ...move.piece, hasMoved: true };
+  newBoard[move.from.row][move.from.col] = move.swappedWith ? { ...move.swappedWith, hasMoved: true } : null;
+  
+  if (move.isEnPassant) {
+    newBoard[move.from.row][move.to.col] = null;
+  }
+  
+  if (move.isCastling) {
+    const isKingside = move.to.col > move.from.col;
+    const rookFromCol = isKingside ? 7 : 0;
+    const rookToCol = isKingside ? 5 : 3;
+    const rook = newBoard[move.from.row][rookFromCol];
+    if (rook) {
+      newBoard[move.from.row][rookToCol] = { ...rook, hasMoved: true };
+      newBoard[move.from.row][rookFromCol] = null;
+    }
+  }
+  
+  return newBoard;
+}
+
+export function getEnPassantTarget(move: Move): Position | null {
+  // A teleporting pawn has not double-stepped past anything
+  if (move.usedPowerUp) return null;
+  if (move.piece.type !== 'pawn' || Math.abs(move.to.row - move.from.row) !== 2) return null;
+  
+  return { row: (move.from.row + move.to.row) / 2, col: move.from.col };
+}
+
 export function findKing(board: (ChessPiece | null)[][], color: PieceColor): Position | null {
   for (let row = 0; row < 8; row++) {
     for (let col = 0; col < 8; col++) {
@@ -208,12 +392,14 @@ export function isSquareAttacked(
   byColor: PieceColor,
   shrunkSquares: Set<string>
 ): boolean {
+  if (shrunkSquares.has(positionKey(position))) return false;
+  
   for (let row = 0; row < 8; row++) {
     for (let col = 0; col < 8; col++) {
       const piece = board[row][col];
       if (piece && piece.color === byColor) {
         const from = { row, col };
-        if (isValidMove(board, from, position, shrunkSquares)) {
+        if (attacksSquare(board, piece, from, position)) {
           return true;
         }
       }
@@ -222,6 +408,23 @@ export function isSquareAttacked(
   return false;
 }
 
+function attacksSquare(
+  board: (ChessPiece | null)[][],
+  piece: ChessPiece,
+  from: Position,
+  to: Position
+): boolean {
+  if (from.row === to.row && from.col === to.col) return false;
+  
+  // Pawns only attack diagonally, whether or not the square is occupied
+  if (piece.type === 'pawn') {
+    const direction = piece.color === 'white' ? -1 : 1;
+    return to.row - from.row === direction && Math.abs(to.col - from.col) === 1;
+  }
+  
+  return isValidPieceMove(board, piece, from, to);
+}
+
 export function isInCheck(
   board: (ChessPiece | null)[][],
   color: PieceColor,
@@ -241,9 +444,7 @@ export function wouldBeInCheck(
   shrunkSquares: Set<string>
 ): boolean {
   // Create a copy of the board with the move applied
-  const newBoard = board.map(row => [...row]);
-  newBoard[move.to.row][move.to.col] = move.piece;
-  newBoard[move.from.row][move.from.col] = null;
+  const newBoard = applyMoveToBoard(board, move);
   
   return isInCheck(newBoard, color, shrunkSquares);
 }
@@ -251,28 +452,31 @@ export function wouldBeInCheck(
 export function getLegalMoves(
   board: (ChessPiece | null)[][],
   color: PieceColor,
-  shrunkSquares: Set<string>
+  shrunkSquares: Set<string>,
+  options: MoveGenerationOptions = {}
 ): Move[] {
-  const allMoves = getAllPossibleMoves(board, color, shrunkSquares);
+  const allMoves = getAllPossibleMoves(board, color, shrunkSquares, options);
   return allMoves.filter(move => !wouldBeInCheck(board, move, color, shrunkSquares));
 }
 
 export function isCheckmate(
   board: (ChessPiece | null)[][],
   color: PieceColor,
-  shrunkSquares: Set<string>
+  shrunkSquares: Set<string>,
+  options: MoveGenerationOptions = {}
 ): boolean {
   if (!isInCheck(board, color, shrunkSquares)) return false;
-  return getLegalMoves(board, color, shrunkSquares).length === 0;
+  return getLegalMoves(board, color, shrunkSquares, options).length === 0;
 }
 
 export function isStalemate(
   board: (ChessPiece | null)[][],
   color: PieceColor,
-  shrunkSquares: Set<string>
+  shrunkSquares: Set<string>,
+  options: MoveGenerationOptions = {}
 ): boolean {
   if (isInCheck(board, color, shrunkSquares)) return false;
-  return getLegalMoves(board, color, shrunkSquares).length === 0;
+  return getLegalMoves(board, color, shrunkSquares, options).length === 0;
 }
 
 export function evaluatePosition(board: (ChessPiece | null)[][], color: PieceColor): number {
@@ -282,7 +486,7 @@ export function evaluatePosition(board: (ChessPiece | null)[][], color: PieceCol
     for (let col = 0; col < 8; col++) {
       const piece = board[row][col];
       if (piece) {
-        const value = PIECE_VALUES[piece.type];
+        const value = getPieceValue(piece);
         if (piece.color === color) {
           score += value;
         } else {
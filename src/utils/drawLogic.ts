@@ -0,0 +1,107 @@
+import { GameState, ChessPiece, DrawReason, PieceColor } from '../types/chess';
+
+// Half-moves without a pawn move or capture before the game is drawn
+const FIFTY_MOVE_LIMIT = 100;
+
+// Positions only repeat when pieces, side to move, castling rights, en passant
+// square, shrunk squares and power-ups lying on the board all match
+export function getPositionHash(gameState: GameState): string {
+  const boardKey = gameState.board
+    .map(row => row.map(piece => (piece ? getPieceCode(piece) : '.')).join(''))
+    .join('/');
+  
+  const castlingKey = getCastlingKey(gameState.board);
+  const enPassantKey = gameState.enPassantTarget
+    ? `${gameState.enPassantTarget.row}-${gameState.enPassantTarget.col}`
+    : '-';
+  const shrunkKey = [...gameState.shrunkSquares].sort().join(',');
+  const powerUpKey = gameState.powerUps
+    .map(powerUp => `${powerUp.type}@${powerUp.position.row}-${powerUp.position.col}`)
+    .sort()
+    .join(',');
+  
+  return [boardKey, gameState.currentPlayer, castlingKey, enPassantKey, shrunkKey, powerUpKey].join(' ');
+}
+
+function getPieceCode(piece: ChessPiece): string {
+  const code = piece.type === 'knight' ? 'n' : piece.type[0];
+  const fusion = piece.fusionMoves ? `+${piece.fusionMoves.join('+')}` : '';
+  return (piece.color === 'white' ? code.toUpperCase() : code) + fusion;
+}
+
+export function getCastlingKey(board: (ChessPiece | null)[][]): string {
+  let key = '';
+  const sides: { color: PieceColor; row: number }[] = [
+    { color: 'white', row: 7 },
+    { color: 'black', row: 0 }
+  ];
+  
+  for (const { color, row } of sides) {
+    const king = board[row][4];
+    if (!king || king.type !== 'king' || king.color !== color || king.hasMoved) continue;
+    
+    for (const rookCol of [7, 0]) {
+      const rook = board[row][rookCol];
+      if (rook && rook.type === 'rook' && rook.color === color && !rook.hasMoved) {
+        const flag = rookCol === 7 ? 'k' : 'q';
+        key += color === 'white' ? flag.toUpperCase() : flag;
+      }
+    }
+  }
+  
+  return key || '-';
+}
+
+export function isThreefoldRepetition(gameState: GameState): boolean {
+  const current = gameState.positionHistory[gameState.positionHistory.length - 1];
+  if (!current) return false;
+  
+  return gameState.positionHistory.filter(hash => hash === current).length >= 3;
+}
+
+export function isFiftyMoveRule(gameState: GameState): boolean {
+  return gameState.halfmoveClock >= FIFTY_MOVE_LIMIT;
+}
+
+export function hasInsufficientMaterial(gameState: GameState): boolean {
+  // Pieces waiting to respawn are material that could still return
+  if (gameState.respawnQueue.length > 0) return false;
+  
+  const minorPieces: { piece: ChessPiece; squareColor: number }[] = [];
+  
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = gameState.board[row][col];
+      if (!piece || piece.type === 'king') continue;
+      // Pawns can always promote or transform, and a fused piece is never a minor one
+      if ((piece.type !== 'bishop' && piece.type !== 'knight') || piece.fusionMoves) return false;
+      minorPieces.push({ piece, squareColor: (row + col) % 2 });
+    }
+  }
+  
+  // King vs king, or king and a single minor piece vs king
+  if (minorPieces.length <= 1) return true;
+  
+  // Only bishops, all on the same square color
+  const allBishops = minorPieces.every(({ piece }) => piece.type === 'bishop');
+  return allBishops && minorPieces.every(({ squareColor }) => squareColor === minorPieces[0].squareColor);
+}
+
+export function getDrawReason(gameState: GameState): DrawReason | null {
+  if (isThreefoldRepetition(gameState)) return 'threefold-repetition';
+  if (isFiftyMoveRule(gameState)) return 'fifty-move-rule';
+  if (hasInsufficientMaterial(gameState)) return 'insufficient-material';
+  return null;
+}
+
+export function getDrawReasonDescription(reason: DrawReason): string {
+  const descriptions: Record<DrawReason, string> = {
+    'stalemate': 'Stalemate - no legal moves',
+    'threefold-repetition': 'Threefold repetition',
+    'fifty-move-rule': 'Fifty moves without a capture or pawn move',
+    'insufficient-material': 'Insufficient material to checkmate',
+    'both-kings-lost': 'Both kings were lost'
+  };
+  
+  return descriptions[reason];
+}
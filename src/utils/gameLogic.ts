@@ -1,10 +1,83 @@
-import { ChessPiece, GameState, Move, Position, PieceColor } from '../types/chess';
-import { isValidMove, evaluatePosition, PIECE_VALUES, positionKey, getLegalMoves, isInCheck, isCheckmate, isStalemate, findKing as findKingInBoard, isSquareAttacked } from './chessLogic';
-import { generateShrinkBlocks, applyShrinkBlocks, updateAndApplyShrinkBlocks } from './shrinkLogic';
-import { createRespawnQueue, processRespawnQueue } from './respawnLogic';
-import { processPieceTransformations, updatePieceMovementCounters, resetMovementCounter } from './transformationLogic';
-import { spawnPowerUps, updatePowerUps, collectPowerUp, applyPowerUpEffects } from './powerupLogic';
+import {
+  ChessPiece,
+  GameState,
+  Move,
+  PieceColor,
+  DrawReason,
+  AISettings,
+  GameSetup,
+  InventoryRules,
+  PlayerController,
+  Position,
+  PieceType,
+  RespawnRules
+} from '../types/chess';
+import {
+  getPieceValue,
+  getLegalMoves,
+  isCheckmate,
+  isStalemate,
+  isInCheck,
+  applyMoveToBoard,
+  getEnPassantTarget,
+  getMoveOptions,
+  getSquareName
+} from './chessLogic';
+import {
+  generateShrinkBlocks,
+  applyShrinkBlocks,
+  updateAndApplyShrinkBlocks,
+  getSuddenDeathStart,
+  getPendingEvacuation,
+  evacuateKing,
+  Evacuation,
+  SHRINK_EVENT,
+  SHRINK_WARNING_EVENT
+} from './shrinkLogic';
+import { DEFAULT_SHRINK_PATTERN_ID } from './shrinkPatternRegistry';
+import {
+  createRespawnQueue,
+  processRespawnQueue,
+  getPendingRespawn,
+  placeRespawn,
+  settleRespawn,
+  RespawnDecision,
+  DEFAULT_RESPAWN_RULES,
+  RESPAWN_EVENT
+} from './respawnLogic';
+import {
+  processPieceTransformations,
+  processPieceFusions,
+  updatePieceMovementCounters,
+  resetMovementCounter,
+  getFusionName,
+  FUSION_EVENT,
+  TRANSFORMATION_EVENT
+} from './transformationLogic';
+// Aliased so the hooks lint rule does not mistake it for a React hook
+import {
+  spawnPowerUps,
+  updatePowerUps,
+  updateShields,
+  collectPowerUp,
+  usePowerUp as spendPowerUp,
+  springTrap,
+  releaseStuns,
+  thawPieces,
+  getTrapEvent,
+  getPowerUpMoves,
+  getHeldPowerUps,
+  expirePowerUps,
+  DEFAULT_INVENTORY_RULES
+} from './powerupLogic';
+import { getPowerUpDefinition } from './powerupRegistry';
 import { spawnTriviaTiles } from './triviaLogic';
+import { searchBestMove, SearchOptions } from './searchLogic';
+import { chooseComputerPowerUp, ComputerAnalysis } from './aiPowerUpLogic';
+import { DEFAULT_AI_SETTINGS, DIFFICULTY_PROFILES, PERSONALITY_PROFILES } from './aiSettings';
+import { getPositionHash, getDrawReason, getDrawReasonDescription } from './drawLogic';
+import { createRandom, createSeed } from './randomLogic';
+import { getTurnsUntil, isEventDue } from './scheduleLogic';
 import { playSound } from './soundEffects';
 import { fetchGif } from './giphyLogic';
 
@@ -42,39 +115,80 @@ export function createInitialBoard(): (ChessPiece | null)[][] {
   return board;
 }
 
-export function createInitialGameState(): GameState {
-  return {
+export function createInitialGameState(
+  seed: number = createSeed(),
+  inventoryRules: InventoryRules = DEFAULT_INVENTORY_RULES,
+  shrinkPattern: string = DEFAULT_SHRINK_PATTERN_ID,
+  voidRespawn: boolean = false,
+  respawnRules: RespawnRules = DEFAULT_RESPAWN_RULES
+): GameState {
+  const gameState: GameState = {
     board: createInitialBoard(),
     currentPlayer: 'white',
+    extraMoves: 0,
     gamePhase: 'playing',
     winner: null,
+    drawReason: null,
     shrunkSquares: new Set(),
     capturedPieces: [],
+    voidPieces: [],
+    voidRespawn,
     turnCount: 0,
-    timeUntilShrink: 20,
-    timeUntilRespawn: 15,
     powerUps: [],
     triviaTiles: [],
     shrinkBlocks: [],
-    playerPowerUps: new Map([['white', null], ['black', null]]),
+    shrinkPattern,
+    pendingEvacuations: [],
+    playerPowerUps: new Map([['white', []], ['black', []]]),
+    inventoryRules,
     respawnQueue: [],
-    trapSquares: new Set(),
-    shieldedPieces: new Set()
+    respawnRules,
+    pendingRespawn: null,
+    trapSquares: new Map(),
+    revealedTraps: new Set(),
+    stunnedPieces: new Set(),
+    shieldedPieces: new Map(),
+    frozenPieces: new Map(),
+    enPassantTarget: null,
+    positionHistory: [],
+    halfmoveClock: 0,
+    seed,
+    rngState: seed
+  };
+  
+  return {
+    ...gameState,
+    positionHistory: [getPositionHash(gameState)]
   };
 }
 
 export function makeMove(gameState: GameState, move: Move): GameState {
-  const newBoard = gameState.board.map(row => [...row]);
+  // Handles castling (rook hop), en passant (pawn removal) and promotion
+  const newBoard = applyMoveToBoard(gameState.board, move);
+  
+  // Both pieces of a swap have moved, so neither counts as idle any more
+  const movedPiece = newBoard[move.to.row][move.to.col];
+  if (movedPiece) {
+    // Only the jump or swap itself plays the teleport animation
+    newBoard[move.to.row][move.to.col] = { ...resetMovementCounter(movedPiece), isTeleporting: !!move.usedPowerUp };
+  }
+  const swappedPiece = move.swappedWith ? newBoard[move.from.row][move.from.col] : null;
+  if (swappedPiece) {
+    newBoard[move.from.row][move.from.col] = { ...resetMovementCounter(swappedPiece), isTeleporting: true };
+  }
   
-  let capturedPieces = [...gameState.capturedPieces];
+  const capturedPieces = [...gameState.capturedPieces];
   if (move.captured) {
     capturedPieces.push(move.captured);
   }
   
-  newBoard[move.to.row][move.to.col] = { ...move.piece, hasMoved: true };
-  newBoard[move.from.row][move.from.col] = null;
-  
-  let newGameState = collectPowerUp(gameState, move.to, gameState.currentPlayer);
+  // Spend a power-up before collecting, so a teleport can land on a fresh one
+  const unstunnedState = thawPieces(releaseStuns(gameState, gameState.currentPlayer), gameState.currentPlayer);
+  const spentState = move.usedPowerUp
+    ? spendPowerUp(unstunnedState, gameState.currentPlayer, move.usedPowerUp.type)
+    : unstunnedState;
+  // Held power-ups age before the pickup, so a fresh one starts with its full time
+  let newGameState = collectPowerUp(expirePowerUps(spentState, gameState.currentPlayer), move.to, gameState.currentPlayer);
   
   let newTriviaTiles = [...newGameState.triviaTiles];
   const triviaTileIndex = newTriviaTiles.findIndex(
@@ -92,19 +206,125 @@ export function makeMove(gameState: GameState, move: Move): GameState {
     });
   }
   
-  const nextPlayer = gameState.currentPlayer === 'white' ? 'black' : 'white';
+  const mover = gameState.currentPlayer;
+  const opponent = mover === 'white' ? 'black' : 'white';
   
-  return {
+  // Pawn moves and captures are irreversible: reset the fifty-move clock and
+  // drop the repetition history since no earlier position can recur
+  const isIrreversible = move.piece.type === 'pawn' || !!move.captured;
+  
+  const sprungState = springTrap(updateShields({
     ...newGameState,
     board: newBoard,
-    currentPlayer: nextPlayer,
+    currentPlayer: opponent,
+    extraMoves: 0,
     capturedPieces,
     respawnQueue: newRespawnQueue,
     turnCount: gameState.turnCount + 1,
     triviaTiles: newTriviaTiles,
+    enPassantTarget: getEnPassantTarget(move),
+    halfmoveClock: isIrreversible ? 0 : gameState.halfmoveClock + 1,
+  }, mover), move.to);
+  const isCaughtByTrap = sprungState.capturedPieces.length > capturedPieces.length;
+  
+  // Extra moves keep the turn, but a move that gives check ends it at once, so a
+  // king is never left in check for the mover to capture. Nobody can take en passant
+  // a pawn of the side still moving.
+  const keepsTurn = gameState.extraMoves > 0 && !isInCheck(sprungState.board, opponent, sprungState.shrunkSquares);
+  const movedState: GameState = keepsTurn
+    ? { ...sprungState, currentPlayer: mover, extraMoves: gameState.extraMoves - 1, enPassantTarget: null }
+    : sprungState;
+  
+  return {
+    ...movedState,
+    positionHistory: [...(isIrreversible || isCaughtByTrap ? [] : gameState.positionHistory), getPositionHash(movedState)]
+  };
+}
+
+// One move by the side to move, then every board mechanic it sets off. Extra moves
+// are ordinary moves: each one advances the turn counter and with it the shrink,
+// spawn and respawn cycles.
+export function playMove(gameState: GameState, move: Move, triggerScreenShake?: () => void): {
+  newGameState: GameState;
+  events: string[];
+} {
+  const trapEvent = getTrapEvent(gameState, move);
+  const movedState = makeMove(gameState, move);
+  const inventoryEvents = getInventoryEvents(gameState, movedState, move);
+  const checkedGameState = checkGameOver(movedState);
+  const processedState = processGameMechanics(checkedGameState);
+  const { newGameState, events } = processPostMoveEffects(processedState, triggerScreenShake);
+  
+  return { newGameState, events: [...(trapEvent ? [trapEvent] : []), ...inventoryEvents, ...events] };
+}
+
+// A correct trivia answer. The reward is earned after the turn has passed, so it
+// hands the turn straight back; it is lost if the opponent is in check, since a
+// second move could then capture the king.
+export function grantExtraMove(gameState: GameState, color: PieceColor): GameState {
+  const opponent = color === 'white' ? 'black' : 'white';
+  if (!isGameInProgress(gameState) || isInCheck(gameState.board, opponent, gameState.shrunkSquares)) {
+    return gameState;
+  }
+  
+  // Taking the turn back forfeits the opponent's chance at an en passant capture
+  return gameState.currentPlayer === color
+    ? { ...gameState, extraMoves: gameState.extraMoves + 1 }
+    : { ...gameState, currentPlayer: color, extraMoves: 0, enPassantTarget: null };
+}
+
+// Hands the turn to the opponent without moving; unused extra moves are lost, and so
+// is any en passant capture, which would be of the opponent's own pawn
+export function passTurn(gameState: GameState, color: PieceColor): GameState {
+  return {
+    ...gameState,
+    currentPlayer: color === 'white' ? 'black' : 'white',
+    extraMoves: 0,
+    enPassantTarget: null
   };
 }
 
+// The owner of a king caught by a shrink moves it to one of its escape squares.
+// Nobody may move or use a power-up until every caught king has fled or fallen, and
+// only then is the game judged again.
+export function playEvacuation(gameState: GameState, color: PieceColor, to: Position): GameState {
+  if (getPendingEvacuation(gameState)?.color !== color) return gameState;
+
+  const evacuatedState = evacuateKing(gameState, to);
+  if (evacuatedState === gameState) return gameState;
+  return evacuatedState.pendingEvacuations.length === 0
+    ? checkGameOver(settleRespawn(evacuatedState))
+    : evacuatedState;
+}
+
+// The owner of a returning piece picks its type from the draft and, in home
+// placement, its square. Like an evacuation it comes before any move, and the
+// new piece can change whether the side to move has one.
+export function playRespawn(gameState: GameState, color: PieceColor, pieceType: PieceType, to?: Position): GameState {
+  if (getPendingDecision(gameState)?.kind !== 'respawn' || gameState.pendingRespawn?.piece.color !== color) {
+    return gameState;
+  }
+
+  const respawnedState = placeRespawn(gameState, pieceType, to);
+  return respawnedState === gameState ? gameState : checkGameOver(respawnedState);
+}
+
+// A choice that must be made before anyone moves: caught kings flee first, then a
+// returning piece is placed
+export type PendingDecision = { kind: 'evacuation'; color: PieceColor } | { kind: 'respawn'; color: PieceColor };
+
+export function getPendingDecision(gameState: GameState): PendingDecision | null {
+  const evacuation = getPendingEvacuation(gameState);
+  if (evacuation) return { kind: 'evacuation', color: evacuation.color };
+  if (gameState.pendingRespawn) return { kind: 'respawn', color: gameState.pendingRespawn.piece.color };
+  return null;
+}
+
+// The side whose input the game is waiting for
+export function getActingColor(gameState: GameState): PieceColor {
+  return getPendingDecision(gameState)?.color ?? gameState.currentPlayer;
+}
+
 export function shrinkBoard(gameState: GameState): GameState {
   return updateAndApplyShrinkBlocks(gameState);
 }
@@ -115,36 +335,66 @@ export function respawnPiece(gameState: GameState): GameState {
   return newGameState;
 }
 
+// Sudden death (gamePhase 'shrinking') is still a game in progress
+export function isGameInProgress(gameState: GameState): boolean {
+  return gameState.gamePhase === 'playing' || gameState.gamePhase === 'shrinking';
+}
+
+// Decides a sudden-death stalemate, or a game in which both kings fell: the side with
+// more material left on the board wins, and equal material is a draw (null)
+function getMaterialWinner(board: (ChessPiece | null)[][]): PieceColor | null {
+  const material: Record<PieceColor, number> = { white: 0, black: 0 };
+  board.forEach(row => row.forEach(piece => {
+    if (piece && piece.type !== 'king') material[piece.color] += getPieceValue(piece);
+  }));
+  if (material.white === material.black) return null;
+  return material.white > material.black ? 'white' : 'black';
+}
+
 export function checkGameOver(gameState: GameState): GameState {
-  const whiteInCheckmate = isCheckmate(gameState.board, 'white', gameState.shrunkSquares);
-  const blackInCheckmate = isCheckmate(gameState.board, 'black', gameState.shrunkSquares);
-  const whiteInStalemate = isStalemate(gameState.board, 'white', gameState.shrunkSquares);
-  const blackInStalemate = isStalemate(gameState.board, 'black', gameState.shrunkSquares);
+  const moveOptions = getMoveOptions(gameState);
+  const whiteInCheckmate = isCheckmate(gameState.board, 'white', gameState.shrunkSquares, moveOptions);
+  const blackInCheckmate = isCheckmate(gameState.board, 'black', gameState.shrunkSquares, moveOptions);
+  const whiteInStalemate = isStalemate(gameState.board, 'white', gameState.shrunkSquares, moveOptions);
+  const blackInStalemate = isStalemate(gameState.board, 'black', gameState.shrunkSquares, moveOptions);
   
   let winner: PieceColor | 'draw' | null = null;
+  let drawReason: DrawReason | null = null;
   
   if (whiteInCheckmate) {
     winner = 'black';
   } else if (blackInCheckmate) {
     winner = 'white';
   } else if (whiteInStalemate || blackInStalemate) {
-    winner = 'draw';
+    // Sudden death leaves no time to wait a stalemate out
+    winner = (gameState.gamePhase === 'shrinking' ? getMaterialWinner(gameState.board) : null) ?? 'draw';
+    drawReason = winner === 'draw' ? 'stalemate' : null;
+  } else {
+    drawReason = getDrawReason(gameState);
+    if (drawReason) {
+      winner = 'draw';
+    }
   }
   
   const whiteKing = findKing(gameState.board, 'white');
   const blackKing = findKing(gameState.board, 'black');
   
+  // A king only leaves the board by falling with a shrinking square it could not flee
   if (!whiteKing && !blackKing) {
-    winner = 'draw';
+    winner = getMaterialWinner(gameState.board) ?? 'draw';
+    drawReason = winner === 'draw' ? 'both-kings-lost' : null;
   } else if (!whiteKing) {
     winner = 'black';
+    drawReason = null;
   } else if (!blackKing) {
     winner = 'white';
+    drawReason = null;
   }
   
   return {
     ...gameState,
     winner,
+    drawReason,
     gamePhase: winner !== null ? 'gameOver' : gameState.gamePhase
   };
 }
@@ -165,6 +415,10 @@ export function processGameMechanics(gameState: GameState): GameState {
   let newGameState = gameState;
   
   newGameState = updateAndApplyShrinkBlocks(newGameState);
+  // A king that fell with its square ends the game at once
+  if (isGameInProgress(newGameState) && (!findKing(newGameState.board, 'white') || !findKing(newGameState.board, 'black'))) {
+    newGameState = checkGameOver(newGameState);
+  }
   
   newGameState = spawnPowerUps(newGameState);
 
@@ -174,171 +428,131 @@ export function processGameMechanics(gameState: GameState): GameState {
   
   newGameState = updatePieceMovementCounters(newGameState);
   newGameState = processPieceTransformations(newGameState);
+  newGameState = processPieceFusions(newGameState);
   
   return newGameState;
 }
 
-export function getComputerMove(gameState: GameState): Move | null {
-  const legalMoves = getLegalMoves(gameState.board, 'black', gameState.shrunkSquares);
-  if (legalMoves.length === 0) return null;
-  
-  for (const move of legalMoves) {
-    const tempBoard = gameState.board.map(row => [...row]);
-    tempBoard[move.to.row][move.to.col] = move.piece;
-    tempBoard[move.from.row][move.from.col] = null;
-    
-    if (isCheckmate(tempBoard, 'white', gameState.shrunkSquares)) {
-      return move;
-    }
+export function getComputerMove(gameState: GameState, settings: AISettings = DEFAULT_AI_SETTINGS): Move | null {
+  return getComputerAnalysis(gameState, settings).move;
+}
+
+export function getComputerAnalysis(gameState: GameState, settings: AISettings = DEFAULT_AI_SETTINGS): ComputerAnalysis {
+  // A caught king flees before anyone moves, whoever's turn it is
+  const evacuation = getPendingEvacuation(gameState);
+  if (evacuation) {
+    return {
+      move: null,
+      score: 0,
+      depth: 0,
+      principalVariation: [],
+      nodes: 0,
+      powerUp: null,
+      evacuation: chooseComputerEvacuation(gameState, evacuation, settings)
+    };
   }
-  
-  const evaluatedMoves = legalMoves.map(move => {
-    let score = 0;
-    
-    const tempBoard = gameState.board.map(row => [...row]);
-    tempBoard[move.to.row][move.to.col] = move.piece;
-    tempBoard[move.from.row][move.from.col] = null;
-    
-    if (isInCheck(tempBoard, 'white', gameState.shrunkSquares)) {
-      score += 500;
-    }
-    
-    if (move.captured) {
-      score += PIECE_VALUES[move.captured.type] * 15;
-      
-      const ourKingPos = findKingInBoard(gameState.board, 'black');
-      if (ourKingPos && isSquareAttacked(gameState.board, ourKingPos, 'white', gameState.shrunkSquares)) {
-        if (isValidMove(gameState.board, move.to, ourKingPos, gameState.shrunkSquares)) {
-          score += 200;
-        }
-      }
-    }
-    
-    score += evaluateKingSafety(gameState, move);
-    
-    const centerSquares = [{row: 3, col: 3}, {row: 3, col: 4}, {row: 4, col: 3}, {row: 4, col: 4}];
-    if (centerSquares.some(center => center.row === move.to.row && center.col === move.to.col)) {
-      score += 10;
-    }
-    
-    if (isSquareAttacked(tempBoard, move.to, 'white', gameState.shrunkSquares)) {
-      score -= PIECE_VALUES[move.piece.type] * 8;
-    }
-    
-    score += evaluatePowerupProximity(gameState, move) * 0.5;
-    
-    score += evaluateShrinkingSafety(gameState, move);
-    
-    score += evaluatePosition(tempBoard, 'black') * 2;
-    
-    score += Math.random() * 3;
-    
-    return { move, score };
-  });
-  
-  evaluatedMoves.sort((a, b) => b.score - a.score);
-  
-  const topCount = Math.min(3, evaluatedMoves.length);
-  const topMoves = evaluatedMoves.slice(0, topCount);
-  const weights = topMoves.map((_, index) => Math.pow(0.8, index));
-  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
-  
-  let random = Math.random() * totalWeight;
-  for (let i = 0; i < topMoves.length; i++) {
-    random -= weights[i];
-    if (random <= 0) {
-      return topMoves[i].move;
-    }
+  const respawn = getPendingRespawn(gameState);
+  if (respawn) {
+    return {
+      move: null,
+      score: 0,
+      depth: 0,
+      principalVariation: [],
+      nodes: 0,
+      powerUp: null,
+      respawn: chooseComputerRespawn(gameState, respawn, settings)
+    };
   }
-  
-  return topMoves[0].move;
-}
 
-function evaluateKingSafety(gameState: GameState, move: Move): number {
-  let score = 0;
-  const kingPos = findKingPosition(gameState.board, 'black');
-  
-  if (!kingPos) return -1000;
-  
-  if (move.piece.type === 'king') {
-    const edgeDistance = Math.min(
-      move.to.row, 7 - move.to.row, 
-      move.to.col, 7 - move.to.col
-    );
-    score += edgeDistance * 10;
-    
-    const isShrinkDanger = gameState.shrinkBlocks.some(block => 
-      block.position.row === move.to.row && 
-      block.position.col === move.to.col &&
-      block.turnsUntilShrink <= 5
-    );
-    if (isShrinkDanger) score -= 100;
+  const difficulty = DIFFICULTY_PROFILES[settings.difficulty];
+  const personality = PERSONALITY_PROFILES[settings.personality];
+  // Derived from the game's generator without advancing it: the computer's choice
+  // enters the game only as an ordinary move, so replays stay in step
+  const random = createRandom(gameState.rngState + gameState.turnCount);
+  
+  if (random.next() < difficulty.blunderRate) {
+    const legalMoves = getLegalMoves(gameState.board, gameState.currentPlayer, gameState.shrunkSquares, getMoveOptions(gameState));
+    const move = legalMoves.length > 0 ? random.pick(legalMoves) : null;
+    return { move, score: 0, depth: 0, principalVariation: move ? [move] : [], nodes: 0, powerUp: null };
   }
   
-  if (move.piece.type !== 'king') {
-    const distanceToKing = Math.abs(move.to.row - kingPos.row) + Math.abs(move.to.col - kingPos.col);
-    if (distanceToKing <= 2) score += 15;
-  }
+  const options: SearchOptions = {
+    maxDepth: difficulty.maxDepth,
+    timeLimitMs: difficulty.timeLimitMs,
+    randomness: difficulty.randomness,
+    random,
+    weights: personality.weights
+  };
+  const analysis = searchBestMove(gameState, {
+    ...options,
+    powerUpMoves: getPowerUpMoves(gameState, gameState.currentPlayer)
+  });
   
-  return score;
+  // A teleport is spent by the move itself
+  return {
+    ...analysis,
+    powerUp: analysis.move?.usedPowerUp ? null : chooseComputerPowerUp(gameState, analysis, options)
+  };
 }
 
-function evaluatePowerupProximity(gameState: GameState, move: Move): number {
-  let score = 0;
-  
-  for (const powerup of gameState.powerUps) {
-    const distance = Math.abs(move.to.row - powerup.position.row) + 
-                    Math.abs(move.to.col - powerup.position.col);
-    
-    if (distance === 0) {
-      score += 50;
-    } else if (distance <= 2) {
-      score += 20 / distance;
+// The computer's pick among the positions a decision of `color` can lead to. Each is
+// scored by a short search; together they take about as long as one move search.
+function chooseComputerOption<T>(
+  options: T[],
+  play: (option: T) => GameState,
+  color: PieceColor,
+  settings: AISettings
+): T {
+  const difficulty = DIFFICULTY_PROFILES[settings.difficulty];
+  const searchOptions: SearchOptions = {
+    maxDepth: Math.min(difficulty.maxDepth, 2),
+    timeLimitMs: difficulty.timeLimitMs / options.length,
+    weights: PERSONALITY_PROFILES[settings.personality].weights
+  };
+  const scoreOption = (option: T): number => {
+    const playedState = play(option);
+    if (playedState.gamePhase === 'gameOver') {
+      if (playedState.winner === 'draw') return 0;
+      return playedState.winner === color ? Infinity : -Infinity;
     }
-  }
-  
-  return score;
+    const { score } = searchBestMove(playedState, searchOptions);
+    return playedState.currentPlayer === color ? score : -score;
+  };
+
+  return options
+    .map(option => ({ option, score: scoreOption(option) }))
+    .reduce((best, candidate) => (candidate.score > best.score ? candidate : best))
+    .option;
 }
 
-function evaluateShrinkingSafety(gameState: GameState, move: Move): number {
-  let score = 0;
-  
-  const isDangerZone = gameState.shrinkBlocks.some(block => 
-    block.position.row === move.to.row && 
-    block.position.col === move.to.col
+// The escape square the computer flees to with a king caught by a shrink
+function chooseComputerEvacuation(gameState: GameState, evacuation: Evacuation, settings: AISettings): Position {
+  return chooseComputerOption(
+    evacuation.squares,
+    square => playEvacuation(gameState, evacuation.color, square),
+    evacuation.color,
+    settings
   );
-  
-  if (isDangerZone) {
-    const block = gameState.shrinkBlocks.find(block => 
-      block.position.row === move.to.row && 
-      block.position.col === move.to.col
-    );
-    if (block) {
-      if (block.turnsUntilShrink <= 1) {
-        score -= 200;
-      } else if (block.turnsUntilShrink <= 3) {
-        score -= 100;
-      } else if (block.turnsUntilShrink <= 5) {
-        score -= 50;
-      } else {
-        score -= 20;
-      }
-    }
-  }
-  
-  return score;
 }
 
-function findKingPosition(board: (ChessPiece | null)[][], color: PieceColor): Position | null {
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = board[row][col];
-      if (piece && piece.type === 'king' && piece.color === color) {
-        return { row, col };
-      }
-    }
-  }
-  return null;
+// The type, and in home placement the square, the computer brings a lost piece back
+// with. Under random placement the square is drawn from the game's generator, so
+// every type is judged by the square it would really get.
+function chooseComputerRespawn(
+  gameState: GameState,
+  respawn: RespawnDecision,
+  settings: AISettings
+): { pieceType: PieceType; to?: Position } {
+  const isHome = gameState.respawnRules.placement === 'home';
+  const options = respawn.choices.flatMap(({ type, squares }) =>
+    isHome ? squares.map(to => ({ pieceType: type, to })) : [{ pieceType: type }]
+  );
+  return chooseComputerOption(
+    options,
+    ({ pieceType, to }: { pieceType: PieceType; to?: Position }) => playRespawn(gameState, respawn.color, pieceType, to),
+    respawn.color,
+    settings
+  );
 }
 
 export function processPostMoveEffects(gameState: GameState, triggerScreenShake?: () => void): {
@@ -356,16 +570,41 @@ export function processPostMoveEffects(gameState: GameState, triggerScreenShake?
   newGameState = respawnResult.gameState;
   events.push(...respawnResult.events);
 
-  if (newGameState.gamePhase === 'gameOver' && newGameState.winner) {
-    events.push(`checkmate,${newGameState.winner} wins`);
+  if (newGameState.gamePhase === 'gameOver' && newGameState.winner === 'draw') {
+    const reason = newGameState.drawReason ? getDrawReasonDescription(newGameState.drawReason) : 'Draw';
+    events.push(`DRAW: ${reason.toUpperCase()}`);
+  } else if (newGameState.gamePhase === 'gameOver' && newGameState.winner) {
+    const winner = newGameState.winner as PieceColor;
+    const loser = winner === 'white' ? 'black' : 'white';
+    if (!findKing(newGameState.board, loser) && findKing(newGameState.board, winner)) {
+      events.push(`${loser.toUpperCase()} KING LOST! ${winner.toUpperCase()} WINS!`);
+    } else if (
+      !findKing(newGameState.board, loser) ||
+      !isCheckmate(newGameState.board, loser, newGameState.shrunkSquares, getMoveOptions(newGameState))
+    ) {
+      // A sudden-death stalemate, or both kings falling, is settled on material
+      events.push(`${winner.toUpperCase()} WINS ON MATERIAL!`);
+    } else {
+      events.push(`checkmate,${winner} wins`);
+    }
   }
   
-  if (newGameState.turnCount % 15 === 0 && newGameState.turnCount > 0) {
+  if (isEventDue(RESPAWN_EVENT, newGameState.turnCount)) {
     events.push('piece-respawn');
   }
-  if (newGameState.turnCount % 12 === 0 && newGameState.turnCount > 0) {
+  if (isEventDue(TRANSFORMATION_EVENT, newGameState.turnCount)) {
     events.push('piece-transformation');
   }
+  if (isEventDue(FUSION_EVENT, newGameState.turnCount)) {
+    // A piece fused this turn is the only fused one that has not stood still for a turn yet
+    const fused = newGameState.board.flat().filter((piece): piece is ChessPiece =>
+      piece?.transformationType === 'fusion' && piece.turnsWithoutMoving === 0
+    );
+    fused.forEach(piece => events.push(
+      `${piece.color.toUpperCase()} ${[piece.type, ...(piece.fusionMoves ?? [])].join(' + ').toUpperCase()} = ${(getFusionName(piece) ?? 'fusion').toUpperCase()}!`
+    ));
+    if (fused.length > 0) events.push('piece-transformation');
+  }
 
   return { newGameState, events };
 }
@@ -375,18 +614,17 @@ function processShrinkEffects(gameState: GameState, triggerScreenShake?: () => v
   events: string[];
 } {
   const events: string[] = [];
-  const shrinkCountdown = 16 - (gameState.turnCount % 16);
 
-  if (shrinkCountdown === 3) {
-    events.push("SHRINKING IN 3 TURNS!");
+  if (isEventDue(SHRINK_WARNING_EVENT, gameState.turnCount)) {
+    events.push(`SHRINKING IN ${getTurnsUntil(SHRINK_EVENT, gameState.turnCount)} TURNS!`);
     playSound('emergency');
-  } else if (shrinkCountdown === 1) {
+  } else if (getTurnsUntil(SHRINK_EVENT, gameState.turnCount) === 1) {
     events.push("SHRINKING IMMINENT!");
     playSound('emergency');
     if (triggerScreenShake) {
       triggerScreenShake();
     }
-  } else if (gameState.turnCount % 16 === 0 && gameState.turnCount > 0) {
+  } else if (isEventDue(SHRINK_EVENT, gameState.turnCount)) {
     events.push("BOARD SHRINKING!");
     playSound('shrink');
     if (triggerScreenShake) {
@@ -394,6 +632,16 @@ function processShrinkEffects(gameState: GameState, triggerScreenShake?: () => v
     }
   }
 
+  const fallen = gameState.voidPieces.filter(({ turnCount }) => turnCount === gameState.turnCount);
+  if (fallen.length > 0) {
+    const names = fallen.map(({ piece, position }) => `${piece.color} ${piece.type} on ${getSquareName(position)}`);
+    events.push(`${names.join(', ').toUpperCase()} FELL INTO THE VOID!`);
+  }
+
+  if (gameState.gamePhase === 'shrinking' && gameState.turnCount === getSuddenDeathStart(gameState.shrinkPattern)) {
+    events.push("SUDDEN DEATH! THE BOARD WILL COLLAPSE TO ONE SQUARE!");
+  }
+
   return { gameState, events };
 }
 
@@ -404,30 +652,58 @@ function processRespawnEffects(gameState: GameState): {
   let newGameState = gameState;
   const events: string[] = [];
 
-  if (newGameState.turnCount % 15 === 0 && newGameState.turnCount > 0) {
+  if (isEventDue(RESPAWN_EVENT, newGameState.turnCount)) {
     newGameState = respawnPiece(newGameState);
-    events.push("PIECE RESPAWNED!");
+    const { pendingRespawn } = newGameState;
+    events.push(pendingRespawn ? `${pendingRespawn.piece.color.toUpperCase()} BRINGS A PIECE BACK!` : "PIECE RESPAWNED!");
     playSound('respawn');
   }
 
-  const whitePowerUp = newGameState.playerPowerUps.get('white');
-  const blackPowerUp = newGameState.playerPowerUps.get('black');
-  
-  if (whitePowerUp && newGameState.currentPlayer === 'black') {
-    const description = getPowerUpDescription(whitePowerUp.type);
-    events.push(description);
-  }
-
   return { gameState: newGameState, events };
 }
 
-function getPowerUpDescription(powerUpType: string): string {
-  const descriptions: Record<string, string> = {
-    'teleport': 'TELEPORT ACQUIRED!',
-    'shield': 'SHIELD ACQUIRED!', 
-    'extraMove': 'EXTRA MOVE ACQUIRED!',
-    'trap': 'TRAP ACQUIRED!'
-  };
+// Announces the power-ups the mover picked up and those that expired unused
+function getInventoryEvents(before: GameState, after: GameState, move: Move): string[] {
+  const mover = move.piece.color;
+  const heldBefore = getHeldPowerUps(before, mover);
+  const idsBefore = new Set(heldBefore.map(powerUp => powerUp.id));
+  const getName = (powerUpType: string) => (getPowerUpDefinition(powerUpType)?.name ?? 'Powerup').toUpperCase();
+
+  const expired = before.inventoryRules.heldTurns > 0
+    ? heldBefore.filter(powerUp => powerUp.turnsUntilDespawn <= 1)
+    : [];
+  // A power-up spent by the move is the copy closest to expiring, not an expiry
+  const spentIndex = expired.findIndex(powerUp => powerUp.type === move.usedPowerUp?.type);
+  if (spentIndex !== -1) expired.splice(spentIndex, 1);
+
+  return [
+    ...getHeldPowerUps(after, mover)
+      .filter(powerUp => !idsBefore.has(powerUp.id))
+      .map(powerUp => `${getName(powerUp.type)} ACQUIRED!`),
+    ...expired.map(powerUp => `${getName(powerUp.type)} EXPIRED!`)
+  ];
+}
+
+export const DEFAULT_GAME_SETUP: GameSetup = {
+  players: { white: 'human', black: 'computer' },
+  flipBoardEachTurn: false,
+  online: null,
+  startPosition: null,
+  inventory: DEFAULT_INVENTORY_RULES,
+  shrinkPattern: DEFAULT_SHRINK_PATTERN_ID,
+  voidRespawn: false,
+  respawnRules: DEFAULT_RESPAWN_RULES
+};
+
+export function getPlayerLabel(color: PieceColor, players: Record<PieceColor, PlayerController>): string {
+  const opponent = color === 'white' ? 'black' : 'white';
+  const colorName = color === 'white' ? 'White' : 'Black';
+  
+  // Against a single computer or remote player the human side is simply "You"
+  if (players[color] !== players[opponent]) {
+    if (players[color] === 'human') return 'You';
+    return players[color] === 'remote' ? 'Opponent' : 'Computer';
+  }
   
-  return descriptions[powerUpType] || 'POWERUP ACQUIRED!';
-}
\ No newline at end of file
+  return players[color] === 'computer' ? `${colorName} (Computer)` : colorName;
+}
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePosition, serializePosition } from './positionLogic';
+import { grantExtraMove } from './gameLogic';
+import { pieceAt, playLine } from './testHelpers';
+
+test('a knight back on its home square keeps hasMoved through a round-trip', () => {
+  const gameState = playLine('4k3/8/8/8/8/8/8/1N2K3 w - - 0 1', ['b1-a3', 'e8-d8', 'a3-b1', 'd8-e8']);
+  assert.equal(pieceAt(gameState, 'b1')?.hasMoved, true);
+
+  const position = serializePosition(gameState);
+  assert.match(position, /idle:[^ ]*b1=/);
+  const reloaded = parsePosition(position);
+  assert.equal(pieceAt(reloaded, 'b1')?.hasMoved, true);
+  assert.equal(pieceAt(reloaded, 'b1')?.turnsWithoutMoving, pieceAt(gameState, 'b1')?.turnsWithoutMoving);
+  assert.equal(serializePosition(reloaded), position);
+});
+
+test('a double-step followed by an extra move still round-trips', () => {
+  const gameState = playLine('4k3/8/8/8/8/8/2P5/4K3 w - - 0 1 BR1 extra:1', ['c2-c4']);
+  assert.equal(gameState.currentPlayer, 'white');
+  assert.equal(gameState.enPassantTarget, null);
+
+  const position = serializePosition(gameState);
+  assert.equal(serializePosition(parsePosition(position)), position);
+});
+
+test('a trivia reward after a double-step still round-trips', () => {
+  const gameState = grantExtraMove(playLine('4k3/8/8/8/8/8/2P5/4K3 w - - 0 1', ['c2-c4']), 'white');
+  assert.equal(gameState.currentPlayer, 'white');
+
+  const position = serializePosition(gameState);
+  assert.equal(serializePosition(parsePosition(position)), position);
+});
@@ -0,0 +1,564 @@
+import { ChessPiece, DrawReason, GameState, PendingRespawn, PieceColor, PieceType, Position, PowerUp, ShrinkBlock, VoidPiece } from '../types/chess';
+import { getSquareName, positionKey } from './chessLogic';
+import { getCastlingKey, getPositionHash } from './drawLogic';
+import { FREEZE_DURATION, SHIELD_DURATION, getPowerUpDefinition } from './powerupRegistry';
+import { getSuddenDeathStart } from './shrinkLogic';
+import { getFusionName } from './transformationLogic';
+import { DEFAULT_SHRINK_PATTERN_ID, getShrinkPattern } from './shrinkPatternRegistry';
+import {
+  DEFAULT_INVENTORY_RULES,
+  MAX_INVENTORY_SLOTS,
+  formatInventoryRules,
+  getHeldPowerUps,
+  getInventorySlots,
+  parseInventoryRules
+} from './powerupLogic';
+import { DEFAULT_RESPAWN_RULES, formatRespawnRules, parseRespawnRules } from './respawnLogic';
+
+// Battle Royale positions are written as a standard six-field FEN followed by a
+// format marker and optional key:value fields (omitted when empty):
+//
+//   <placement> <side> <castling> <en passant> <halfmove> <fullmove> BR1
+//   turn:23 extra:1 seed:1234 rng:5678 pattern:spiral shrunk:a1,h8 evac:h8 warn:b2/3,c2/3 pu:shield@e4/2
+//   inv:3/12 held:shield+trap/4,- trap:d5/b scouted:d5 stun:e1 shield:c3/2 freeze:e7/1 cap:wN,bP
+//   void:wB@a1/16 voidrule:respawn respawn:home/3 queue:bP spawn:wP/nbr
+//   trivia:f6 vet:e4 fuse:c3=n fresh:d4 idle:e2=5,d7=6 result:draw/stalemate
+//
+//   turn     plies played (the fullmove number alone loses passes and extra moves)
+//   extra    extra moves the side to move has left after this one
+//   seed/rng seed of the random generator and its current state
+//   pattern  id of the shrink pattern (omitted for the classic one)
+//   shrunk   squares removed from the board
+//   evac     fallen squares whose king has yet to flee, first caught first
+//   warn     pending shrink blocks with their countdown
+//   pu       power-ups lying on the board as type@square/turns-until-despawn
+//   inv      inventory rules as slots/held-turns, plus /hidden (omitted for the defaults)
+//   held     power-ups held by white and by black, oldest first, joined by + with the
+//            holder's moves left as type/turns (a bare type is a fresh pickup)
+//   trap     armed traps as square/owner (w or b)
+//   scouted  armed traps a Scout has revealed
+//   stun     squares of stunned pieces
+//   shield   shielded pieces as square/opponent-moves-left (a bare square means a fresh shield)
+//   freeze   frozen pieces as square/own-moves-left (a bare square means a fresh freeze)
+//   cap      captured pieces in capture order; queue  pieces waiting to respawn
+//   void     pieces lost to the shrink as piece@square/turn, in the order they fell
+//   voidrule respawn when pieces lost to the shrink may respawn (omitted when they may not)
+//   respawn  respawn rules as the placement, random or home, plus /draft-size (omitted for random)
+//   spawn    lost piece whose owner is choosing how it returns, with the rolled type codes
+//   trivia   squares with a trivia tile
+//   vet      squares of veteran (transformed) pieces
+//   fuse     fused pieces as square=codes of the types they absorbed
+//   fresh    unmoved pawns away from their start rank (respawned pawns keep the double step)
+//   idle     turns a pawn or a piece that has moved has stood still, for veteran
+//            transformations and fusions
+//   result   winner once the game is over: white, black or draw/<reason>
+//
+// Piece ids are not part of the notation; parsing names them after their square.
+export const POSITION_FORMAT_MARKER = 'BR1';
+
+const PIECE_CODES: Record<PieceType, string> = {
+  king: 'k',
+  queen: 'q',
+  rook: 'r',
+  bishop: 'b',
+  knight: 'n',
+  pawn: 'p'
+};
+
+const PIECE_TYPES_BY_CODE: Record<string, PieceType> = {
+  k: 'king',
+  q: 'queen',
+  r: 'rook',
+  b: 'bishop',
+  n: 'knight',
+  p: 'pawn'
+};
+
+const DRAW_REASONS: DrawReason[] = ['stalemate', 'threefold-repetition', 'fifty-move-rule', 'insufficient-material', 'both-kings-lost'];
+const FIELD_ORDER = [
+  'turn', 'extra', 'seed', 'rng', 'pattern', 'shrunk', 'evac', 'warn', 'pu', 'inv', 'held', 'trap', 'scouted', 'stun', 'shield',
+  'freeze', 'cap', 'void', 'voidrule', 'respawn', 'queue', 'spawn', 'trivia', 'vet', 'fuse', 'fresh', 'idle', 'result'
+];
+
+// Starting squares, used to recover hasMoved for pieces the notation does not track
+const HOME_ROWS: Record<PieceColor, { pieces: number; pawns: number }> = {
+  white: { pieces: 7, pawns: 6 },
+  black: { pieces: 0, pawns: 1 }
+};
+const HOME_COLUMNS: Record<PieceType, number[]> = {
+  rook: [0, 7],
+  knight: [1, 6],
+  bishop: [2, 5],
+  queen: [3],
+  king: [4],
+  pawn: [0, 1, 2, 3, 4, 5, 6, 7]
+};
+
+function getPieceCode(piece: { type: PieceType; color: PieceColor }): string {
+  const code = PIECE_CODES[piece.type];
+  return piece.color === 'white' ? code.toUpperCase() : code;
+}
+
+function getPieceToken(piece: ChessPiece): string {
+  return `${piece.color === 'white' ? 'w' : 'b'}${PIECE_CODES[piece.type].toUpperCase()}`;
+}
+
+function listSquares(positions: Position[]): string {
+  return positions.map(getSquareName).sort().join(',');
+}
+
+function keyToPosition(key: string): Position {
+  const [row, col] = key.split('-').map(Number);
+  return { row, col };
+}
+
+function keysToPositions(keys: Set<string>): Position[] {
+  return [...keys].map(keyToPosition);
+}
+
+function findPieceSquares(gameState: GameState, matches: (piece: ChessPiece) => boolean): Position[] {
+  const positions: Position[] = [];
+  gameState.board.forEach((row, rowIndex) => row.forEach((piece, colIndex) => {
+    if (piece && matches(piece)) positions.push({ row: rowIndex, col: colIndex });
+  }));
+  return positions;
+}
+
+function serializePlacement(board: (ChessPiece | null)[][]): string {
+  return board.map(row => {
+    let rank = '';
+    let empty = 0;
+    row.forEach(piece => {
+      if (!piece) {
+        empty++;
+        return;
+      }
+      if (empty > 0) rank += empty;
+      empty = 0;
+      rank += getPieceCode(piece);
+    });
+    return empty > 0 ? rank + empty : rank;
+  }).join('/');
+}
+
+export function serializePosition(gameState: GameState): string {
+  const { board } = gameState;
+  const enPassant = gameState.enPassantTarget ? getSquareName(gameState.enPassantTarget) : '-';
+  const fields: Record<string, string> = {
+    turn: String(gameState.turnCount),
+    extra: gameState.extraMoves > 0 ? String(gameState.extraMoves) : '',
+    seed: String(gameState.seed),
+    rng: String(gameState.rngState),
+    pattern: gameState.shrinkPattern === DEFAULT_SHRINK_PATTERN_ID ? '' : gameState.shrinkPattern,
+    shrunk: listSquares(keysToPositions(gameState.shrunkSquares)),
+    evac: gameState.pendingEvacuations.map(getSquareName).join(','),
+    warn: gameState.shrinkBlocks
+      .map(block => `${getSquareName(block.position)}/${block.turnsUntilShrink}${block.isWarning ? '' : '!'}`)
+      .join(','),
+    pu: gameState.powerUps
+      .map(powerUp => `${powerUp.type}@${getSquareName(powerUp.position)}/${powerUp.turnsUntilDespawn}`)
+      .join(','),
+    inv: formatInventoryRules(gameState.inventoryRules) === formatInventoryRules(DEFAULT_INVENTORY_RULES)
+      ? ''
+      : formatInventoryRules(gameState.inventoryRules),
+    held: (['white', 'black'] as PieceColor[])
+      .map(color => getHeldPowerUps(gameState, color)
+        .map(powerUp => gameState.inventoryRules.heldTurns === 0 || powerUp.turnsUntilDespawn === gameState.inventoryRules.heldTurns
+          ? powerUp.type
+          : `${powerUp.type}/${powerUp.turnsUntilDespawn}`)
+        .join('+') || '-')
+      .join(','),
+    trap: [...gameState.trapSquares]
+      .map(([key, owner]) => `${getSquareName(keyToPosition(key))}/${owner[0]}`)
+      .sort()
+      .join(','),
+    scouted: listSquares(keysToPositions(gameState.revealedTraps)),
+    stun: listSquares(findPieceSquares(gameState, piece => gameState.stunnedPieces.has(piece.id))),
+    shield: findPieceSquares(gameState, piece => gameState.shieldedPieces.has(piece.id))
+      .map(position => `${getSquareName(position)}/${gameState.shieldedPieces.get(board[position.row][position.col]!.id)}`)
+      .sort()
+      .join(','),
+    freeze: findPieceSquares(gameState, piece => gameState.frozenPieces.has(piece.id))
+      .map(position => `${getSquareName(position)}/${gameState.frozenPieces.get(board[position.row][position.col]!.id)}`)
+      .sort()
+      .join(','),
+    cap: gameState.capturedPieces.map(getPieceToken).join(','),
+    void: gameState.voidPieces
+      .map(({ piece, position, turnCount }) => `${getPieceToken(piece)}@${getSquareName(position)}/${turnCount}`)
+      .join(','),
+    voidrule: gameState.voidRespawn ? 'respawn' : '',
+    respawn: formatRespawnRules(gameState.respawnRules) === formatRespawnRules(DEFAULT_RESPAWN_RULES)
+      ? ''
+      : formatRespawnRules(gameState.respawnRules),
+    queue: gameState.respawnQueue.map(entry => getPieceToken(entry.piece)).join(','),
+    spawn: gameState.pendingRespawn
+      ? `${getPieceToken(gameState.pendingRespawn.piece)}/${gameState.pendingRespawn.types.map(type => PIECE_CODES[type]).join('')}`
+      : '',
+    trivia: listSquares(gameState.triviaTiles.map(tile => tile.position)),
+    vet: listSquares(findPieceSquares(gameState, piece => piece.transformationType === 'veteran')),
+    fuse: findPieceSquares(gameState, piece => !!piece.fusionMoves)
+      .map(position => `${getSquareName(position)}=${board[position.row][position.col]!.fusionMoves!.map(type => PIECE_CODES[type]).join('')}`)
+      .sort()
+      .join(','),
+    fresh: listSquares(findPieceSquares(gameState, piece => piece.type === 'pawn' && !piece.hasMoved).filter(position =>
+      position.row !== HOME_ROWS[board[position.row][position.col]!.color].pawns
+    )),
+    idle: findPieceSquares(gameState, piece =>
+      piece.type !== 'king' && (piece.type === 'pawn' || !!piece.hasMoved) && (piece.turnsWithoutMoving ?? 0) > 0
+    )
+      .map(position => `${getSquareName(position)}=${board[position.row][position.col]!.turnsWithoutMoving}`)
+      .sort()
+      .join(','),
+    result: gameState.winner === 'draw'
+      ? `draw${gameState.drawReason ? `/${gameState.drawReason}` : ''}`
+      : gameState.winner ?? ''
+  };
+
+  return [
+    serializePlacement(board),
+    gameState.currentPlayer === 'white' ? 'w' : 'b',
+    getCastlingKey(board),
+    enPassant,
+    String(gameState.halfmoveClock),
+    String(Math.floor(gameState.turnCount / 2) + 1),
+    POSITION_FORMAT_MARKER,
+    ...FIELD_ORDER.filter(name => fields[name] !== '' && fields[name] !== '-,-').map(name => `${name}:${fields[name]}`)
+  ].join(' ');
+}
+
+function fail(message: string): never {
+  throw new Error(`Invalid position: ${message}`);
+}
+
+function parseSquare(name: string, field: string): Position {
+  const match = name.match(/^([a-h])([1-8])$/);
+  if (!match) fail(`"${name}" in ${field} is not a square`);
+  return { row: 8 - Number(match[2]), col: match[1].charCodeAt(0) - 97 };
+}
+
+function parseCount(value: string, field: string): number {
+  if (!/^\d+$/.test(value)) fail(`${field} must be a non-negative integer, got "${value}"`);
+  return Number(value);
+}
+
+function splitList(value: string | undefined): string[] {
+  return value ? value.split(',') : [];
+}
+
+function parsePlacement(placement: string): (ChessPiece | null)[][] {
+  const ranks = placement.split('/');
+  if (ranks.length !== 8) fail(`expected 8 ranks, got ${ranks.length}`);
+
+  return ranks.map((rank, row) => {
+    const squares: (ChessPiece | null)[] = [];
+    for (const char of rank) {
+      if (/[1-8]/.test(char)) {
+        squares.push(...Array(Number(char)).fill(null));
+        continue;
+      }
+      const type = PIECE_TYPES_BY_CODE[char.toLowerCase()];
+      if (!type) fail(`unknown piece "${char}" on rank ${8 - row}`);
+
+      const color: PieceColor = char === char.toUpperCase() ? 'white' : 'black';
+      const col = squares.length;
+      const isHome = row === (type === 'pawn' ? HOME_ROWS[color].pawns : HOME_ROWS[color].pieces) &&
+        HOME_COLUMNS[type].includes(col);
+      squares.push({
+        type,
+        color,
+        id: `${color}-${type}-${getSquareName({ row, col })}`,
+        hasMoved: !isHome,
+        turnsWithoutMoving: 0
+      });
+    }
+    if (squares.length !== 8) fail(`rank ${8 - row} has ${squares.length} squares`);
+    return squares;
+  });
+}
+
+function parsePieceToken(token: string, field: string, index: number): ChessPiece {
+  const match = token.match(/^([wb])([KQRBNP])$/);
+  if (!match) fail(`"${token}" in ${field} is not a piece like wN or bP`);
+  const color: PieceColor = match[1] === 'w' ? 'white' : 'black';
+  const type = PIECE_TYPES_BY_CODE[match[2].toLowerCase()];
+  return { type, color, id: `${color}-${type}-${field}-${index}`, hasMoved: true };
+}
+
+export function parsePosition(text: string): GameState {
+  const [placement, side, castling, enPassant, halfmove, fullmove, marker, ...extras] = text.trim().split(/\s+/);
+
+  if (!fullmove) fail('expected the six FEN fields');
+  if (marker !== undefined && marker !== POSITION_FORMAT_MARKER) {
+    fail(`unsupported format marker "${marker}" (expected ${POSITION_FORMAT_MARKER})`);
+  }
+  if (side !== 'w' && side !== 'b') fail(`side to move must be w or b, got "${side}"`);
+  if (!/^(-|K?Q?k?q?)$/.test(castling)) fail(`bad castling field "${castling}"`);
+
+  const fields: Record<string, string> = {};
+  extras.forEach(extra => {
+    const separator = extra.indexOf(':');
+    const name = extra.slice(0, separator);
+    if (separator <= 0 || !FIELD_ORDER.includes(name)) fail(`unknown field "${extra}"`);
+    if (name in fields) fail(`field ${name} appears twice`);
+    fields[name] = extra.slice(separator + 1);
+  });
+
+  const board = parsePlacement(placement);
+  const pieceAt = (position: Position, field: string): ChessPiece => {
+    const piece = board[position.row][position.col];
+    if (!piece) fail(`${field} names ${getSquareName(position)}, which is empty`);
+    return piece;
+  };
+
+  // Castling rights decide whether kings and rooks on their home squares still count as unmoved
+  const castlingSides: { flag: string; color: PieceColor; rookCol: number }[] = [
+    { flag: 'K', color: 'white', rookCol: 7 },
+    { flag: 'Q', color: 'white', rookCol: 0 },
+    { flag: 'k', color: 'black', rookCol: 7 },
+    { flag: 'q', color: 'black', rookCol: 0 }
+  ];
+  (['white', 'black'] as PieceColor[]).forEach(color => {
+    const row = HOME_ROWS[color].pieces;
+    [4, 0, 7].forEach(col => {
+      const piece = board[row][col];
+      if (piece && piece.color === color && (piece.type === 'king' || piece.type === 'rook')) piece.hasMoved = true;
+    });
+  });
+  castlingSides.filter(({ flag }) => castling.includes(flag)).forEach(({ flag, color, rookCol }) => {
+    const row = HOME_ROWS[color].pieces;
+    const king = board[row][4];
+    const rook = board[row][rookCol];
+    if (king?.type !== 'king' || king.color !== color || rook?.type !== 'rook' || rook.color !== color) {
+      fail(`castling right ${flag} needs the king and rook on their home squares`);
+    }
+    king.hasMoved = false;
+    rook.hasMoved = false;
+  });
+
+  let enPassantTarget: Position | null = null;
+  if (enPassant !== '-') {
+    enPassantTarget = parseSquare(enPassant, 'en passant');
+    if (enPassantTarget.row !== (side === 'w' ? 2 : 5) || board[enPassantTarget.row][enPassantTarget.col]) {
+      fail(`en passant square ${enPassant} is not one the last move could have skipped`);
+    }
+  }
+
+  const halfmoveClock = parseCount(halfmove, 'halfmove clock');
+  const fullmoveNumber = parseCount(fullmove, 'fullmove number');
+  if (fullmoveNumber < 1) fail('fullmove number starts at 1');
+  const turnCount = fields.turn !== undefined
+    ? parseCount(fields.turn, 'turn')
+    : (fullmoveNumber - 1) * 2 + (side === 'b' ? 1 : 0);
+  const extraMoves = fields.extra !== undefined ? parseCount(fields.extra, 'extra') : 0;
+  const seed = fields.seed !== undefined ? parseCount(fields.seed, 'seed') : 0;
+  const rngState = fields.rng !== undefined ? parseCount(fields.rng, 'rng') : seed;
+
+  const shrunkSquares = new Set(splitList(fields.shrunk).map(name => positionKey(parseSquare(name, 'shrunk'))));
+  const pendingEvacuations = splitList(fields.evac).map(name => {
+    const position = parseSquare(name, 'evac');
+    if (!shrunkSquares.has(positionKey(position)) || board[position.row][position.col]?.type !== 'king') {
+      fail(`evac names ${name}, but no king stands there on a shrunk square`);
+    }
+    return position;
+  });
+  const evacuatingKeys = new Set(pendingEvacuations.map(positionKey));
+  shrunkSquares.forEach(key => {
+    const [row, col] = key.split('-').map(Number);
+    if (board[row][col] && !evacuatingKeys.has(key)) fail(`${getSquareName({ row, col })} is shrunk but holds a piece`);
+  });
+
+  const shrinkBlocks: ShrinkBlock[] = splitList(fields.warn).map(entry => {
+    const match = entry.match(/^([a-h][1-8])\/(\d+)(!?)$/);
+    if (!match) fail(`"${entry}" in warn is not square/turns`);
+    return { position: parseSquare(match[1], 'warn'), turnsUntilShrink: Number(match[2]), isWarning: match[3] !== '!' };
+  });
+
+  const powerUps: PowerUp[] = splitList(fields.pu).map(entry => {
+    const match = entry.match(/^(\w+)@([a-h][1-8])\/(\d+)$/);
+    if (!match || !getPowerUpDefinition(match[1])) fail(`"${entry}" in pu is not type@square/turns`);
+    const position = parseSquare(match[2], 'pu');
+    return {
+      id: `powerup-${match[1]}-${getSquareName(position)}`,
+      type: match[1],
+      position,
+      turnsUntilDespawn: Number(match[3])
+    };
+  });
+
+  const shrinkPattern = fields.pattern ?? DEFAULT_SHRINK_PATTERN_ID;
+  if (!getShrinkPattern(shrinkPattern)) fail(`unknown shrink pattern ${shrinkPattern}`);
+
+  const inventoryRules = fields.inv !== undefined ? parseInventoryRules(fields.inv) : DEFAULT_INVENTORY_RULES;
+  if (!inventoryRules) fail(`inv must be slots/held-turns with at most ${MAX_INVENTORY_SLOTS} slots, as 3/12 or 3/12/hidden`);
+
+  const held = fields.held !== undefined ? fields.held.split(',') : ['-', '-'];
+  if (held.length !== 2) fail('held needs one entry for white and one for black');
+  const playerPowerUps = new Map<PieceColor, PowerUp[]>();
+  (['white', 'black'] as PieceColor[]).forEach((color, index) => {
+    const powerUps = held[index] === '-' ? [] : held[index].split('+').map((entry, heldIndex): PowerUp => {
+      const [type, turns] = entry.split('/');
+      if (!getPowerUpDefinition(type)) fail(`unknown power-up "${type}" in held`);
+      const turnsLeft = turns === undefined || inventoryRules.heldTurns === 0
+        ? inventoryRules.heldTurns
+        : parseCount(turns, 'held');
+      if (inventoryRules.heldTurns > 0 && (turnsLeft === 0 || turnsLeft > inventoryRules.heldTurns)) {
+        fail(`held ${type} needs between 1 and ${inventoryRules.heldTurns} moves left`);
+      }
+      return { id: `powerup-${type}-${color}-${heldIndex}`, type, position: { row: -1, col: -1 }, turnsUntilDespawn: turnsLeft };
+    });
+    if (getInventorySlots(powerUps).length > inventoryRules.slots) {
+      fail(`${color} holds more power-up types than its ${inventoryRules.slots} slots`);
+    }
+    playerPowerUps.set(color, powerUps);
+  });
+
+  const trapSquares = new Map(splitList(fields.trap).map((entry): [string, PieceColor] => {
+    const [name, owner] = entry.split('/');
+    if (owner !== 'w' && owner !== 'b') fail(`trap on ${name} needs an owner, as ${name}/w or ${name}/b`);
+    return [positionKey(parseSquare(name, 'trap')), owner === 'w' ? 'white' : 'black'];
+  }));
+  const revealedTraps = new Set(splitList(fields.scouted).map(name => {
+    const key = positionKey(parseSquare(name, 'scouted'));
+    if (!trapSquares.has(key)) fail(`scouted names ${name}, but there is no trap there`);
+    return key;
+  }));
+  const stunnedPieces = new Set(splitList(fields.stun).map(name => pieceAt(parseSquare(name, 'stun'), 'stun').id));
+  const shieldedPieces = new Map(splitList(fields.shield).map((entry): [string, number] => {
+    const [name, turns] = entry.split('/');
+    const piece = pieceAt(parseSquare(name, 'shield'), 'shield');
+    if (piece.type === 'king') fail(`shield names ${name}, but kings cannot be shielded`);
+    const turnsLeft = turns === undefined ? SHIELD_DURATION : parseCount(turns, 'shield');
+    if (turnsLeft === 0) fail(`shield on ${name} has no turns left`);
+    return [piece.id, turnsLeft];
+  }));
+  const frozenPieces = new Map(splitList(fields.freeze).map((entry): [string, number] => {
+    const [name, turns] = entry.split('/');
+    const piece = pieceAt(parseSquare(name, 'freeze'), 'freeze');
+    if (piece.type === 'king') fail(`freeze names ${name}, but kings cannot be frozen`);
+    const turnsLeft = turns === undefined ? FREEZE_DURATION : parseCount(turns, 'freeze');
+    if (turnsLeft === 0) fail(`freeze on ${name} has no turns left`);
+    return [piece.id, turnsLeft];
+  }));
+
+  const capturedPieces = splitList(fields.cap).map((token, index) => parsePieceToken(token, 'captured', index));
+  const voidPieces: VoidPiece[] = splitList(fields.void).map((entry, index) => {
+    const match = entry.match(/^(\w+)@([a-h][1-8])\/(\d+)$/);
+    if (!match) fail(`"${entry}" in void is not piece@square/turn`);
+    const piece = parsePieceToken(match[1], 'void', index);
+    if (piece.type === 'king') fail('void names a king, but kings never fall into the void');
+    return { piece, position: parseSquare(match[2], 'void'), turnCount: Number(match[3]) };
+  });
+  if (fields.voidrule !== undefined && fields.voidrule !== 'respawn') fail(`bad voidrule "${fields.voidrule}"`);
+  const voidRespawn = fields.voidrule === 'respawn';
+  // Queued pieces must be lost ones: respawning removes them from their list by id
+  const lostPieces = voidRespawn ? [...capturedPieces, ...voidPieces.map(({ piece }) => piece)] : capturedPieces;
+  const queuedIds = new Set<string>();
+  const respawnQueue = splitList(fields.queue).map(token => {
+    const wanted = parsePieceToken(token, 'queue', 0);
+    const piece = lostPieces.find(captured =>
+      captured.type === wanted.type && captured.color === wanted.color && !queuedIds.has(captured.id)
+    );
+    if (!piece) fail(`queued ${token} is not among the ${voidRespawn ? 'captured or fallen' : 'captured'} pieces`);
+    queuedIds.add(piece.id);
+    return { player: piece.color, piece };
+  });
+
+  const respawnRules = fields.respawn !== undefined ? parseRespawnRules(fields.respawn) : DEFAULT_RESPAWN_RULES;
+  if (!respawnRules) fail('respawn must be random or home with an optional draft of 2 or 3, as home/3');
+  let pendingRespawn: PendingRespawn | null = null;
+  if (fields.spawn !== undefined) {
+    const match = fields.spawn.match(/^(\w+)\/([qrbnp]+)$/);
+    if (!match) fail(`"${fields.spawn}" in spawn is not piece/types, as wP/nbr`);
+    const wanted = parsePieceToken(match[1], 'spawn', 0);
+    const piece = lostPieces.find(lost => lost.type === wanted.type && lost.color === wanted.color && !queuedIds.has(lost.id));
+    if (!piece) fail(`spawn ${match[1]} is not among the lost pieces still to be queued`);
+    const types = [...match[2]].map(code => PIECE_TYPES_BY_CODE[code]);
+    if (new Set(types).size !== types.length || types.length !== Math.max(respawnRules.draft, 1)) {
+      fail(`spawn needs ${Math.max(respawnRules.draft, 1)} different types for the respawn rules`);
+    }
+    pendingRespawn = { piece, types };
+  }
+
+  const triviaTiles = splitList(fields.trivia).map(name => {
+    const position = parseSquare(name, 'trivia');
+    return { id: `trivia-tile-${positionKey(position)}`, position, question: '', correctAnswer: '', incorrectAnswers: [] };
+  });
+
+  splitList(fields.vet).forEach(name => {
+    const piece = pieceAt(parseSquare(name, 'vet'), 'vet');
+    piece.isTransformed = true;
+    piece.transformationType = 'veteran';
+  });
+
+  splitList(fields.fuse).forEach(entry => {
+    const [name, codes] = entry.split('=');
+    const piece = pieceAt(parseSquare(name, 'fuse'), 'fuse');
+    piece.isTransformed = true;
+    piece.transformationType = 'fusion';
+    piece.fusionMoves = [...(codes ?? '')].map(code => PIECE_TYPES_BY_CODE[code]);
+    if (!getFusionName(piece)) fail(`fuse names ${entry}, which is not a fusion pieces can form`);
+  });
+
+  splitList(fields.fresh).forEach(name => {
+    const piece = pieceAt(parseSquare(name, 'fresh'), 'fresh');
+    if (piece.type !== 'pawn') fail(`fresh names ${name}, which is not a pawn`);
+    piece.hasMoved = false;
+  });
+
+  // Only pieces that have moved are listed as idle, so a piece back on its home square keeps hasMoved
+  splitList(fields.idle).forEach(entry => {
+    const [name, turns] = entry.split('=');
+    const piece = pieceAt(parseSquare(name, 'idle'), 'idle');
+    piece.turnsWithoutMoving = parseCount(turns ?? '', 'idle');
+    if (piece.type !== 'pawn') piece.hasMoved = true;
+  });
+
+  let winner: GameState['winner'] = null;
+  let drawReason: DrawReason | null = null;
+  if (fields.result !== undefined) {
+    const [outcome, reason] = fields.result.split('/');
+    if (outcome !== 'white' && outcome !== 'black' && outcome !== 'draw') fail(`bad result "${fields.result}"`);
+    if (reason !== undefined && (outcome !== 'draw' || !DRAW_REASONS.includes(reason as DrawReason))) {
+      fail(`bad draw reason "${reason}"`);
+    }
+    winner = outcome;
+    drawReason = (reason as DrawReason | undefined) ?? null;
+  }
+
+  const gameState: GameState = {
+    board,
+    currentPlayer: side === 'w' ? 'white' : 'black',
+    extraMoves,
+    gamePhase: winner ? 'gameOver' : turnCount >= getSuddenDeathStart(shrinkPattern) ? 'shrinking' : 'playing',
+    winner,
+    drawReason,
+    shrunkSquares,
+    capturedPieces,
+    voidPieces,
+    voidRespawn,
+    turnCount,
+    powerUps,
+    triviaTiles,
+    shrinkBlocks,
+    shrinkPattern,
+    pendingEvacuations,
+    playerPowerUps,
+    inventoryRules,
+    respawnQueue,
+    respawnRules,
+    pendingRespawn,
+    trapSquares,
+    revealedTraps,
+    stunnedPieces,
+    shieldedPieces,
+    frozenPieces,
+    enPassantTarget,
+    // Earlier positions are not part of the notation, so repetition counts start here
+    positionHistory: [],
+    halfmoveClock,
+    seed,
+    rngState
+  };
+
+  return { ...gameState, positionHistory: [getPositionHash(gameState)] };
+}
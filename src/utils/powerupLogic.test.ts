@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePosition } from './positionLogic';
+import { usePowerUp as activatePowerUp } from './powerupLogic';
+import { getPowerUpDefinition } from './powerupRegistry';
+import { exportGameRecord, importGameRecord } from './recordLogic';
+import { pieceAt, square } from './testHelpers';
+import { GameAction } from '../types/chess';
+
+// White holds a Revive and has lost a queen and a knight
+const REVIVE_POSITION = '4k3/8/8/8/8/8/8/4K3 w - - 0 1 BR1 held:revive/5,- cap:wQ,wN';
+const D4 = square('d4');
+
+test('revive offers each captured type and brings back the one picked', () => {
+  const gameState = parsePosition(REVIVE_POSITION);
+  const revive = getPowerUpDefinition('revive')!;
+  assert.deepEqual(revive.getPieceChoices!(gameState, 'white').map(piece => piece.type), ['queen', 'knight']);
+
+  const revived = activatePowerUp(gameState, 'white', 'revive', D4, 'knight');
+  assert.equal(pieceAt(revived, 'd4')?.type, 'knight');
+  assert.deepEqual(revived.capturedPieces.map(piece => piece.type), ['queen']);
+});
+
+test('revive needs a captured piece type to be picked', () => {
+  const gameState = parsePosition(REVIVE_POSITION);
+  assert.equal(activatePowerUp(gameState, 'white', 'revive', D4), gameState);
+  assert.equal(activatePowerUp(gameState, 'white', 'revive', D4, 'rook'), gameState);
+});
+
+test('the revived piece type survives a game record round-trip', () => {
+  const action: GameAction = { type: 'usePowerUp', color: 'white', powerUpType: 'revive', target: D4, pieceType: 'knight' };
+  const text = exportGameRecord({ seed: 0, startPosition: REVIVE_POSITION, tags: {}, actions: [action] });
+  assert.match(text, /\[%use white revive N@d4\]/);
+  const imported = importGameRecord(text);
+  assert.deepEqual(imported.record.actions, [action]);
+  assert.equal(pieceAt(imported.gameState, 'd4')?.type, 'knight');
+});
+
+test('the computer scouts only while the opponent has a trap hidden', () => {
+  const scout = getPowerUpDefinition('scout')!;
+  const chooseFor = (position: string) => scout.chooseForComputer!({
+    gameState: parsePosition(position),
+    principalVariation: [],
+    evaluate: () => 0,
+    holdValue: 0
+  });
+
+  assert.equal(chooseFor('4k3/8/8/8/8/8/8/4K3 w - - 0 1 BR1 held:scout/5,-'), null);
+  assert.equal(chooseFor('4k3/8/8/8/8/8/8/4K3 w - - 0 1 BR1 held:scout/5,- trap:d5/w'), null);
+  assert.equal(chooseFor('4k3/8/8/8/8/8/8/4K3 w - - 0 1 BR1 held:scout/5,- trap:d5/b scouted:d5'), null);
+  assert.ok(chooseFor('4k3/8/8/8/8/8/8/4K3 w - - 0 1 BR1 held:scout/5,- trap:d5/b'));
+});
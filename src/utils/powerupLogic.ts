@@ -1,31 +1,42 @@
-import { GameState, PowerUp, Position, PieceColor } from '../types/chess';
+import { GameState, InventoryRules, PowerUp, Position, PieceColor, PieceType, Move } from '../types/chess';
 import { positionKey } from './chessLogic';
 import { playSound } from './soundEffects';
+import { Random, withRandom } from './randomLogic';
+import { createRespawnQueue } from './respawnLogic';
+import { getPowerUpDefinition, getPowerUpDefinitions } from './powerupRegistry';
+import { isEventDue, registerScheduledEvent } from './scheduleLogic';
+
+// Every 6 rounds (12 turns total)
+export const POWER_UP_SPAWN_EVENT = registerScheduledEvent({
+  id: 'powerup-spawn',
+  label: 'Power-ups appear',
+  icon: '✨',
+  period: 12,
+  offset: 0
+});
 
 export function spawnPowerUps(gameState: GameState): GameState {
-  const SPAWN_INTERVAL = 6; // Every 6 rounds (12 turns total)
-  const SPAWN_COUNT_PER_PLAYER = 1;
-  
-  // Only spawn powerups every 6 rounds (12 turns)
-  if (gameState.turnCount < 12 || gameState.turnCount % 12 !== 0) {
+  if (!isEventDue(POWER_UP_SPAWN_EVENT, gameState.turnCount)) {
     return gameState;
   }
   
-  const newPowerUps = [...gameState.powerUps];
-  const activePlayers = getActivePlayers(gameState);
-  
-  // Spawn 1 powerup per active player
-  for (const player of activePlayers) {
-    const powerUp = createRandomPowerUp(gameState);
-    if (powerUp) {
-      newPowerUps.push(powerUp);
+  return withRandom(gameState, random => {
+    const newPowerUps = [...gameState.powerUps];
+    const activePlayers = getActivePlayers(gameState);
+    
+    // Spawn 1 powerup per active player
+    for (const player of activePlayers) {
+      const powerUp = createRandomPowerUp(gameState, random);
+      if (powerUp) {
+        newPowerUps.push(powerUp);
+      }
     }
-  }
-  
-  return {
-    ...gameState,
-    powerUps: newPowerUps
-  };
+    
+    return {
+      ...gameState,
+      powerUps: newPowerUps
+    };
+  });
 }
 
 export function updatePowerUps(gameState: GameState): GameState {
@@ -42,6 +53,58 @@ export function updatePowerUps(gameState: GameState): GameState {
   };
 }
 
+export const DEFAULT_INVENTORY_RULES: InventoryRules = { slots: 3, heldTurns: 12, hidden: false };
+export const MAX_INVENTORY_SLOTS = 5;
+
+export function isValidInventoryRules(rules: InventoryRules): boolean {
+  return Number.isInteger(rules.slots) && rules.slots >= 1 && rules.slots <= MAX_INVENTORY_SLOTS &&
+    Number.isInteger(rules.heldTurns) && rules.heldTurns >= 0 &&
+    typeof rules.hidden === 'boolean';
+}
+
+// Written as slots/held-turns with an optional /hidden, e.g. 3/12 or 2/0/hidden
+export function formatInventoryRules(rules: InventoryRules): string {
+  return `${rules.slots}/${rules.heldTurns}${rules.hidden ? '/hidden' : ''}`;
+}
+
+export function parseInventoryRules(text: string): InventoryRules | null {
+  const match = text.match(/^(\d+)\/(\d+)(\/hidden)?$/);
+  if (!match) return null;
+  const rules = { slots: Number(match[1]), heldTurns: Number(match[2]), hidden: !!match[3] };
+  return isValidInventoryRules(rules) ? rules : null;
+}
+
+export function getHeldPowerUps(gameState: GameState, color: PieceColor): PowerUp[] {
+  return gameState.playerPowerUps.get(color) ?? [];
+}
+
+// Held power-ups grouped into inventory slots, one per type in the order first
+// acquired. Within a slot the copy that expires soonest comes first and is the one
+// spent or discarded.
+export function getInventorySlots(powerUps: PowerUp[]): PowerUp[][] {
+  const slots = new Map<string, PowerUp[]>();
+  powerUps.forEach(powerUp => slots.set(powerUp.type, [...(slots.get(powerUp.type) ?? []), powerUp]));
+  return [...slots.values()].map(copies => [...copies].sort((a, b) => a.turnsUntilDespawn - b.turnsUntilDespawn));
+}
+
+export function canHoldPowerUp(gameState: GameState, color: PieceColor, powerUpType: string): boolean {
+  const held = getHeldPowerUps(gameState, color);
+  return held.some(powerUp => powerUp.type === powerUpType) ||
+    getInventorySlots(held).length < gameState.inventoryRules.slots;
+}
+
+// The power-up a move lands on that its mover cannot pick up without discarding
+// first, or null. Slots the move frees itself, by spending or expiring a power-up,
+// count as free, just as they are when the move is made.
+export function getBlockedPickup(gameState: GameState, move: Move): PowerUp | null {
+  const powerUp = gameState.powerUps.find(p => p.position.row === move.to.row && p.position.col === move.to.col);
+  if (!powerUp) return null;
+  
+  const mover = move.piece.color;
+  const spentState = move.usedPowerUp ? discardPowerUp(gameState, mover, move.usedPowerUp.type) : gameState;
+  return canHoldPowerUp(expirePowerUps(spentState, mover), mover, powerUp.type) ? null : powerUp;
+}
+
 export function collectPowerUp(gameState: GameState, position: Position, player: PieceColor): GameState {
   const powerUpIndex = gameState.powerUps.findIndex(
     p => p.position.row === position.row && p.position.col === position.col
@@ -50,17 +113,15 @@ export function collectPowerUp(gameState: GameState, position: Position, player:
   if (powerUpIndex === -1) return gameState;
   
   const powerUp = gameState.powerUps[powerUpIndex];
+  // A full inventory leaves the power-up on the board; discarding first makes room
+  if (!canHoldPowerUp(gameState, player, powerUp.type)) {
+    return gameState;
+  }
+  
   const newPowerUps = [...gameState.powerUps];
   newPowerUps.splice(powerUpIndex, 1);
   
-  const newPlayerPowerUps = new Map(gameState.playerPowerUps);
-  
-  // Check if player already has a powerup (1 per player limit)
-  if (newPlayerPowerUps.get(player) !== null) {
-    return gameState; // Player already has a powerup
-  }
-  
-  newPlayerPowerUps.set(player, powerUp);
+  const held: PowerUp = { ...powerUp, turnsUntilDespawn: gameState.inventoryRules.heldTurns };
   
   // Play pickup sound
   playSound('powerup');
@@ -68,54 +129,241 @@ export function collectPowerUp(gameState: GameState, position: Position, player:
   return {
     ...gameState,
     powerUps: newPowerUps,
-    playerPowerUps: newPlayerPowerUps
+    playerPowerUps: new Map(gameState.playerPowerUps).set(player, [...getHeldPowerUps(gameState, player), held])
   };
 }
 
-export function getPowerUpDescription(powerUpType: string): string {
-  const descriptions: Record<string, string> = {
-    'teleport': 'TELEPORT: Move any piece anywhere instantly!',
-    'shield': 'SHIELD: Protect a piece from capture for 3 turns!',
-    'extraMove': 'EXTRA MOVE: Take another turn immediately!',
-    'trap': 'TRAP: Set a trap that captures enemy pieces!'
+// Held power-ups age with each move of their holder and expire when they run out
+export function expirePowerUps(gameState: GameState, mover: PieceColor): GameState {
+  const held = getHeldPowerUps(gameState, mover);
+  if (gameState.inventoryRules.heldTurns === 0 || held.length === 0) return gameState;
+  
+  const aged = held
+    .map(powerUp => ({ ...powerUp, turnsUntilDespawn: powerUp.turnsUntilDespawn - 1 }))
+    .filter(powerUp => powerUp.turnsUntilDespawn > 0);
+  
+  return {
+    ...gameState,
+    playerPowerUps: new Map(gameState.playerPowerUps).set(mover, aged)
   };
+}
+
+function withoutHeldPowerUp(gameState: GameState, player: PieceColor, powerUp: PowerUp): Map<PieceColor, PowerUp[]> {
+  return new Map(gameState.playerPowerUps).set(player, getHeldPowerUps(gameState, player).filter(held => held !== powerUp));
+}
+
+function findHeldPowerUp(gameState: GameState, player: PieceColor, powerUpType: string): PowerUp | undefined {
+  return getInventorySlots(getHeldPowerUps(gameState, player)).find(([powerUp]) => powerUp.type === powerUpType)?.[0];
+}
+
+// Throws a held power-up away unused, freeing its slot once the last copy is gone
+export function discardPowerUp(gameState: GameState, player: PieceColor, powerUpType: string): GameState {
+  const powerUp = findHeldPowerUp(gameState, player, powerUpType);
+  if (!powerUp) return gameState;
   
-  return descriptions[powerUpType] || 'UNKNOWN POWERUP';
+  return {
+    ...gameState,
+    playerPowerUps: withoutHeldPowerUp(gameState, player, powerUp)
+  };
+}
+
+export function getPowerUpDescription(powerUpType: string): string {
+  const definition = getPowerUpDefinition(powerUpType);
+  return definition ? `${definition.name.toUpperCase()}: ${definition.description}` : 'UNKNOWN POWERUP';
 }
 
-export function usePowerUp(gameState: GameState, player: PieceColor, powerUpType: string): GameState {
-  const playerPowerUps = new Map(gameState.playerPowerUps);
-  const powerUp = playerPowerUps.get(player);
+export function usePowerUp(
+  gameState: GameState,
+  player: PieceColor,
+  powerUpType: string,
+  target?: Position,
+  pieceType?: PieceType
+): GameState {
+  const powerUp = findHeldPowerUp(gameState, player, powerUpType);
+  const definition = getPowerUpDefinition(powerUpType);
   
-  if (!powerUp || powerUp.type !== powerUpType) {
+  if (!powerUp || !definition) {
+    return gameState;
+  }
+  const choice = definition.getPieceChoices ? pieceType : undefined;
+  if (definition.getPieceChoices && !definition.getPieceChoices(gameState, player).some(piece => piece.type === choice)) {
+    return gameState;
+  }
+  if (definition.getTargets && (!target || !includesSquare(definition.getTargets(gameState, player, choice), target))) {
     return gameState;
   }
   
+  const appliedState = definition.apply(gameState, player, definition.getTargets ? target : undefined, choice);
+  if (!appliedState) return gameState;
+  
   // Remove powerup after use
-  playerPowerUps.set(player, null);
+  return {
+    ...appliedState,
+    playerPowerUps: withoutHeldPowerUp(gameState, player, powerUp)
+  };
+}
+
+function includesSquare(squares: Position[], target: Position): boolean {
+  return squares.some(square => square.row === target.row && square.col === target.col);
+}
+
+// The event shown when a move is about to run into an enemy trap, or null
+export function getTrapEvent(gameState: GameState, move: Move): string | null {
+  const owner = gameState.trapSquares.get(positionKey(move.to));
+  if (!owner || owner === move.piece.color) return null;
+  
+  if (move.piece.type === 'king') return `TRAP! THE ${move.piece.color.toUpperCase()} KING IS STUNNED!`;
+  if (gameState.shieldedPieces.has(move.piece.id)) return 'TRAP SPRUNG - THE SHIELD HELD!';
+  return `TRAP! ${move.piece.color.toUpperCase()} ${move.piece.type.toUpperCase()} CAUGHT!`;
+}
+
+// Resolves an enemy trap under the piece that just moved to a square. The piece is
+// captured (and queued to respawn) unless it is shielded; a king survives but is
+// stunned for its side's next turn. Either way the trap is used up.
+export function springTrap(gameState: GameState, square: Position): GameState {
+  const key = positionKey(square);
+  const owner = gameState.trapSquares.get(key);
+  const piece = gameState.board[square.row][square.col];
+  if (!owner || !piece || piece.color === owner) return gameState;
+  
+  const trapSquares = new Map(gameState.trapSquares);
+  trapSquares.delete(key);
+  const revealedTraps = new Set(gameState.revealedTraps);
+  revealedTraps.delete(key);
+  playSound('emergency');
+  
+  if (piece.type === 'king') {
+    return {
+      ...gameState,
+      trapSquares,
+      revealedTraps,
+      stunnedPieces: new Set(gameState.stunnedPieces).add(piece.id)
+    };
+  }
+  if (gameState.shieldedPieces.has(piece.id)) {
+    return { ...gameState, trapSquares, revealedTraps };
+  }
+  
+  const board = gameState.board.map(row => [...row]);
+  board[square.row][square.col] = null;
+  const capturedPieces = [...gameState.capturedPieces, piece];
+  
+  return {
+    ...gameState,
+    board,
+    trapSquares,
+    revealedTraps,
+    capturedPieces,
+    respawnQueue: createRespawnQueue({ ...gameState, capturedPieces }),
+    halfmoveClock: 0
+  };
+}
+
+// A stun lasts exactly one turn of the stunned side, so it ends once that side moves
+export function releaseStuns(gameState: GameState, color: PieceColor): GameState {
+  if (gameState.stunnedPieces.size === 0) return gameState;
+  
+  const stunnedPieces = new Set(gameState.stunnedPieces);
+  gameState.board.forEach(row => row.forEach(piece => {
+    if (piece && piece.color === color) stunnedPieces.delete(piece.id);
+  }));
+  
+  return {
+    ...gameState,
+    stunnedPieces
+  };
+}
+
+// A freeze counts down with each move of the frozen piece's own side, so it ends
+// once that side has sat out its turns. Pieces that left the board are dropped.
+export function thawPieces(gameState: GameState, mover: PieceColor): GameState {
+  if (gameState.frozenPieces.size === 0) return gameState;
+  
+  const pieceColors = new Map<string, PieceColor>();
+  gameState.board.forEach(row => row.forEach(piece => {
+    if (piece) pieceColors.set(piece.id, piece.color);
+  }));
+  
+  const frozenPieces = new Map<string, number>();
+  gameState.frozenPieces.forEach((turnsLeft, pieceId) => {
+    const color = pieceColors.get(pieceId);
+    if (!color) return;
+    
+    const remaining = color === mover ? turnsLeft - 1 : turnsLeft;
+    if (remaining > 0) {
+      frozenPieces.set(pieceId, remaining);
+    }
+  });
+  
+  return {
+    ...gameState,
+    frozenPieces
+  };
+}
+
+// Runs after every move: the other side's shields have just outlasted one move by
+// the mover. Shields of pieces that left the board are dropped.
+export function updateShields(gameState: GameState, mover: PieceColor): GameState {
+  if (gameState.shieldedPieces.size === 0) return gameState;
+  
+  const pieceColors = new Map<string, PieceColor>();
+  gameState.board.forEach(row => row.forEach(piece => {
+    if (piece) pieceColors.set(piece.id, piece.color);
+  }));
+  
+  const shieldedPieces = new Map<string, number>();
+  gameState.shieldedPieces.forEach((turnsLeft, pieceId) => {
+    const color = pieceColors.get(pieceId);
+    if (!color) return;
+    
+    const remaining = color !== mover ? turnsLeft - 1 : turnsLeft;
+    if (remaining > 0) {
+      shieldedPieces.set(pieceId, remaining);
+    }
+  });
   
   return {
     ...gameState,
-    playerPowerUps
+    shieldedPieces
   };
 }
 
-function createRandomPowerUp(gameState: GameState): PowerUp | null {
-  const powerUpTypes = ['teleport', 'shield', 'extraMove', 'trap'];
-  const randomType = powerUpTypes[Math.floor(Math.random() * powerUpTypes.length)];
+// The special moves of every held power-up that is spent by moving
+export function getPowerUpMoves(gameState: GameState, color: PieceColor): Move[] {
+  return getInventorySlots(getHeldPowerUps(gameState, color))
+    .flatMap(([powerUp]) => getPowerUpDefinition(powerUp.type)?.getMoves?.(gameState, color) ?? []);
+}
+
+function createRandomPowerUp(gameState: GameState, random: Random): PowerUp | null {
+  const randomType = pickPowerUpType(random);
+  if (!randomType) return null;
   
-  const position = findSafePowerUpPosition(gameState);
+  const position = findSafePowerUpPosition(gameState, random);
   if (!position) return null;
   
   return {
-    id: `powerup-${randomType}-${Date.now()}`,
-    type: randomType as any,
+    id: `powerup-${randomType}-${random.id()}`,
+    type: randomType,
     position,
     turnsUntilDespawn: 3
   };
 }
 
-function findSafePowerUpPosition(gameState: GameState): Position | null {
+// Weighted by spawnWeight; with equal weights this matches a plain random.pick
+function pickPowerUpType(random: Random): string | null {
+  const definitions = getPowerUpDefinitions().filter(definition => definition.spawnWeight > 0);
+  const totalWeight = definitions.reduce((sum, definition) => sum + definition.spawnWeight, 0);
+  if (totalWeight === 0) return null;
+  
+  let roll = random.next() * totalWeight;
+  for (const definition of definitions) {
+    roll -= definition.spawnWeight;
+    if (roll < 0) return definition.id;
+  }
+  return definitions[definitions.length - 1].id;
+}
+
+function findSafePowerUpPosition(gameState: GameState, random: Random): Position | null {
   const availableSquares: Position[] = [];
   
   for (let row = 0; row < 8; row++) {
@@ -135,7 +383,7 @@ function findSafePowerUpPosition(gameState: GameState): Position | null {
   
   if (availableSquares.length === 0) return null;
   
-  return availableSquares[Math.floor(Math.random() * availableSquares.length)];
+  return random.pick(availableSquares);
 }
 
 function isNearKing(gameState: GameState, pos: Position): boolean {
@@ -169,45 +417,3 @@ function getActivePlayers(gameState: GameState): PieceColor[] {
   
   return Array.from(players);
 }
-
-export function applyPowerUpEffects(gameState: GameState, move: any): GameState {
-  if (!move.usedPowerUp) return gameState;
-  
-  const { type } = move.usedPowerUp;
-  
-  switch (type) {
-    case 'shield':
-      return applyShieldEffect(gameState, move);
-    case 'trap':
-      return applyTrapEffect(gameState, move);
-    case 'extraMove':
-      return applyExtraMoveEffect(gameState);
-    default:
-      return gameState;
-  }
-}
-
-function applyShieldEffect(gameState: GameState, move: any): GameState {
-  const newShieldedPieces = new Set(gameState.shieldedPieces);
-  newShieldedPieces.add(move.piece.id);
-  
-  return {
-    ...gameState,
-    shieldedPieces: newShieldedPieces
-  };
-}
-
-function applyTrapEffect(gameState: GameState, move: any): GameState {
-  const newTrapSquares = new Set(gameState.trapSquares);
-  newTrapSquares.add(positionKey(move.to));
-  
-  return {
-    ...gameState,
-    trapSquares: newTrapSquares
-  };
-}
-
-function applyExtraMoveEffect(gameState: GameState): GameState {
-  // Extra move is handled in the main game loop
-  return gameState;
-}
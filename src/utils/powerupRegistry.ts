@@ -0,0 +1,562 @@
+import {
+  ChessPiece,
+  GameState,
+  Move,
+  PieceColor,
+  PieceType,
+  Position,
+  PowerUpAIChoice,
+  PowerUpAIContext,
+  PowerUpDefinition
+} from '../types/chess';
+import {
+  applyMoveToBoard,
+  getMoveOptions,
+  getPieceValue,
+  getSquareName,
+  isInCheck,
+  isSquareAttacked,
+  positionKey,
+  wouldBeInCheck
+} from './chessLogic';
+import { createRespawnQueue } from './respawnLogic';
+import { playSound } from './soundEffects';
+
+// Opponent moves a shield survives
+export const SHIELD_DURATION = 3;
+// Own moves a frozen piece sits out
+export const FREEZE_DURATION = 2;
+
+// Only the most promising targets are worth a search each
+const MAX_AI_CANDIDATES = 3;
+
+// Every power-up the game knows about, in registration order. The spawner, the
+// engine, the computer and the UI all look power-ups up here, so a new one only
+// needs a definition and a registerPowerUp call.
+const registry = new Map<string, PowerUpDefinition>();
+
+export function registerPowerUp(definition: PowerUpDefinition): void {
+  if (registry.has(definition.id)) {
+    throw new Error(`Power-up "${definition.id}" is already registered`);
+  }
+  registry.set(definition.id, definition);
+}
+
+export function getPowerUpDefinition(id: string): PowerUpDefinition | undefined {
+  return registry.get(id);
+}
+
+export function getPowerUpDefinitions(): PowerUpDefinition[] {
+  return [...registry.values()];
+}
+
+function getOpponent(color: PieceColor): PieceColor {
+  return color === 'white' ? 'black' : 'white';
+}
+
+function findPieces(gameState: GameState, matches: (piece: ChessPiece) => boolean): Position[] {
+  const squares: Position[] = [];
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = gameState.board[row][col];
+      if (piece && matches(piece)) {
+        squares.push({ row, col });
+      }
+    }
+  }
+
+  return squares;
+}
+
+function findEmptySquares(gameState: GameState, matches: (square: Position) => boolean = () => true): Position[] {
+  const squares: Position[] = [];
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const square = { row, col };
+      if (gameState.board[row][col] || gameState.shrunkSquares.has(positionKey(square))) continue;
+      if (matches(square)) squares.push(square);
+    }
+  }
+
+  return squares;
+}
+
+function pieceValueAt(gameState: GameState, square: Position): number {
+  return getPieceValue(gameState.board[square.row][square.col]!);
+}
+
+// Aims a power-up at whichever candidate lifts the search score the most, provided
+// the gain beats the worth of keeping the power-up in hand
+function pickByEvaluation<T>(
+  { gameState, evaluate, holdValue }: PowerUpAIContext,
+  candidates: T[],
+  apply: (candidate: T) => GameState,
+  limit = MAX_AI_CANDIDATES
+): T | null {
+  if (candidates.length === 0) return null;
+
+  const baseline = evaluate(gameState);
+  let best: { candidate: T; gain: number } | null = null;
+  for (const candidate of candidates.slice(0, limit)) {
+    const gain = evaluate(apply(candidate)) - baseline;
+    if (gain > holdValue && (!best || gain > best.gain)) {
+      best = { candidate, gain };
+    }
+  }
+
+  return best?.candidate ?? null;
+}
+
+// Any of your pieces except the king can be shielded; re-shielding restarts the count
+function getShieldTargets(gameState: GameState, color: PieceColor): Position[] {
+  return findPieces(gameState, piece => piece.color === color && piece.type !== 'king');
+}
+
+function applyShield(gameState: GameState, target: Position): GameState {
+  return {
+    ...gameState,
+    shieldedPieces: new Map(gameState.shieldedPieces).set(gameState.board[target.row][target.col]!.id, SHIELD_DURATION)
+  };
+}
+
+// Shields the most valuable of your attacked pieces that the search says needs it
+function chooseShieldTarget(context: PowerUpAIContext): PowerUpAIChoice | null {
+  const { gameState } = context;
+  const opponent = getOpponent(gameState.currentPlayer);
+
+  const candidates = getShieldTargets(gameState, gameState.currentPlayer)
+    .filter(square => isSquareAttacked(gameState.board, square, opponent, gameState.shrunkSquares))
+    .sort((a, b) => pieceValueAt(gameState, b) - pieceValueAt(gameState, a));
+  const target = pickByEvaluation(context, candidates, square => applyShield(gameState, square));
+  if (!target) return null;
+
+  const piece = gameState.board[target.row][target.col]!;
+  return { target, message: `SHIELDED ITS ${piece.type.toUpperCase()} ON ${getSquareName(target).toUpperCase()}` };
+}
+
+// A trap can be armed on any empty square that is still on the board. Refusing a
+// square the opponent already trapped would give their trap away, so the newer
+// trap simply takes the square over.
+function getTrapTargets(gameState: GameState, color: PieceColor): Position[] {
+  return findEmptySquares(gameState, square => gameState.trapSquares.get(positionKey(square)) !== color);
+}
+
+// Teleport rules: any of your pieces may jump to any square that is not shrunk and
+// not held by your own piece, a shielded piece or either king. Pawns may not land on
+// the first or last rank, and the jump must not leave your own king in check.
+function getTeleportMoves(gameState: GameState, color: PieceColor): Move[] {
+  const powerUp = gameState.playerPowerUps.get(color)?.find(held => held.type === 'teleport');
+  if (!powerUp) return [];
+
+  const immobilePieces = getMoveOptions(gameState).stunnedPieces;
+  const moves: Move[] = [];
+
+  for (const from of findPieces(gameState, piece => piece.color === color && !immobilePieces.has(piece.id))) {
+    const piece = gameState.board[from.row][from.col]!;
+
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const target = gameState.board[row][col];
+        if (gameState.shrunkSquares.has(positionKey({ row, col }))) continue;
+        if (target && (target.color === color || target.type === 'king')) continue;
+        if (target && gameState.shieldedPieces.has(target.id)) continue;
+        if (piece.type === 'pawn' && (row === 0 || row === 7)) continue;
+
+        const move: Move = {
+          from,
+          to: { row, col },
+          piece,
+          ...(target ? { captured: target } : {}),
+          usedPowerUp: powerUp
+        };
+
+        if (!wouldBeInCheck(gameState.board, move, color, gameState.shrunkSquares)) {
+          moves.push(move);
+        }
+      }
+    }
+  }
+
+  return moves;
+}
+
+// Swap rules: two of your own pieces of different types trade squares, as your move
+// for the turn. Neither may be stunned or frozen, a pawn may not end up on the first
+// or last rank, and your own king must not be left in check.
+function getSwapMoves(gameState: GameState, color: PieceColor): Move[] {
+  const powerUp = gameState.playerPowerUps.get(color)?.find(held => held.type === 'swap');
+  if (!powerUp) return [];
+
+  const immobilePieces = getMoveOptions(gameState).stunnedPieces;
+  const squares = findPieces(gameState, piece => piece.color === color && !immobilePieces.has(piece.id));
+  const moves: Move[] = [];
+
+  for (const from of squares) {
+    const piece = gameState.board[from.row][from.col]!;
+    for (const to of squares) {
+      const other = gameState.board[to.row][to.col]!;
+      if (other.type === piece.type) continue;
+      if (piece.type === 'pawn' && (to.row === 0 || to.row === 7)) continue;
+      if (other.type === 'pawn' && (from.row === 0 || from.row === 7)) continue;
+
+      const move: Move = { from, to, piece, swappedWith: other, usedPowerUp: powerUp };
+      if (!wouldBeInCheck(gameState.board, move, color, gameState.shrunkSquares)) {
+        moves.push(move);
+      }
+    }
+  }
+
+  return moves;
+}
+
+// The king is never frozen, so a side always keeps a way to answer a check
+function getFreezeTargets(gameState: GameState, color: PieceColor): Position[] {
+  const opponent = getOpponent(color);
+  return findPieces(gameState, piece => piece.color === opponent && piece.type !== 'king');
+}
+
+function applyFreeze(gameState: GameState, target: Position): GameState {
+  return {
+    ...gameState,
+    frozenPieces: new Map(gameState.frozenPieces).set(gameState.board[target.row][target.col]!.id, FREEZE_DURATION)
+  };
+}
+
+// Pieces that are blown away: every non-king, unshielded piece around the square
+function getBlastedSquares(gameState: GameState, center: Position): Position[] {
+  const squares: Position[] = [];
+
+  for (let row = center.row - 1; row <= center.row + 1; row++) {
+    for (let col = center.col - 1; col <= center.col + 1; col++) {
+      if (row < 0 || row > 7 || col < 0 || col > 7 || (row === center.row && col === center.col)) continue;
+      const piece = gameState.board[row][col];
+      if (piece && piece.type !== 'king' && !gameState.shieldedPieces.has(piece.id)) {
+        squares.push({ row, col });
+      }
+    }
+  }
+
+  return squares;
+}
+
+function applyBomb(gameState: GameState, target: Position): GameState {
+  const board = gameState.board.map(row => [...row]);
+  const capturedPieces = [...gameState.capturedPieces];
+
+  for (const square of getBlastedSquares(gameState, target)) {
+    capturedPieces.push(board[square.row][square.col]!);
+    board[square.row][square.col] = null;
+  }
+
+  return {
+    ...gameState,
+    board,
+    capturedPieces,
+    respawnQueue: createRespawnQueue({ ...gameState, capturedPieces }),
+    halfmoveClock: 0
+  };
+}
+
+// A bomb goes on an empty square next to at least one piece it would remove. It may
+// not expose either king to check: the bomber still moves this turn, and could
+// otherwise capture a king outright.
+function getBombTargets(gameState: GameState, color: PieceColor): Position[] {
+  return findEmptySquares(gameState, square => {
+    if (getBlastedSquares(gameState, square).length === 0) return false;
+    const { board, shrunkSquares } = applyBomb(gameState, square);
+    return !isInCheck(board, color, shrunkSquares) && !isInCheck(board, getOpponent(color), shrunkSquares);
+  });
+}
+
+// Bombs the squares whose blast hurts the opponent most by material, if the search agrees
+function chooseBombTarget(context: PowerUpAIContext): PowerUpAIChoice | null {
+  const { gameState } = context;
+  const color = gameState.currentPlayer;
+
+  const materialSwing = (square: Position) => getBlastedSquares(gameState, square).reduce((sum, blasted) => {
+    const value = pieceValueAt(gameState, blasted);
+    return sum + (gameState.board[blasted.row][blasted.col]!.color === color ? -value : value);
+  }, 0);
+
+  const candidates = getBombTargets(gameState, color)
+    .map(square => ({ square, swing: materialSwing(square) }))
+    .filter(candidate => candidate.swing > 0)
+    .sort((a, b) => b.swing - a.swing)
+    .map(candidate => candidate.square);
+  const target = pickByEvaluation(context, candidates, square => applyBomb(gameState, square));
+
+  return target ? { target, message: `BOMBED ${getSquareName(target).toUpperCase()}` } : null;
+}
+
+// Revive offers each type among your captured pieces once, most valuable first. Of
+// several captured pieces of one type, the most valuable, such as a fused one, returns.
+function getReviveChoices(gameState: GameState, color: PieceColor): ChessPiece[] {
+  const choices = new Map<PieceType, ChessPiece>();
+  gameState.capturedPieces
+    .filter(piece => piece.color === color && piece.type !== 'king')
+    .forEach(piece => {
+      const best = choices.get(piece.type);
+      if (!best || getPieceValue(piece) > getPieceValue(best)) choices.set(piece.type, piece);
+    });
+  return [...choices.values()].sort((a, b) => getPieceValue(b) - getPieceValue(a));
+}
+
+function getRevivePiece(gameState: GameState, color: PieceColor, pieceType?: PieceType): ChessPiece | null {
+  return getReviveChoices(gameState, color).find(piece => piece.type === pieceType) ?? null;
+}
+
+function placeRevivedPiece(gameState: GameState, piece: ChessPiece, target: Position): (ChessPiece | null)[][] {
+  const board = gameState.board.map(row => [...row]);
+  board[target.row][target.col] = {
+    ...piece,
+    id: `${piece.id}-revive-${gameState.turnCount}`,
+    // Like a respawn: a revived pawn keeps its double step, nothing regains castling rights
+    hasMoved: piece.type !== 'pawn',
+    turnsWithoutMoving: 0,
+    isRespawning: true
+  };
+  return board;
+}
+
+// The piece returns to an empty square in your own half. Pawns avoid the first and
+// last rank, and it may not arrive giving check, since its owner still moves this turn.
+function getReviveTargets(gameState: GameState, color: PieceColor, pieceType?: PieceType): Position[] {
+  const piece = getRevivePiece(gameState, color, pieceType);
+  if (!piece) return [];
+
+  const opponent = getOpponent(color);
+  return findEmptySquares(gameState, square => {
+    if (color === 'white' ? square.row < 4 : square.row > 3) return false;
+    if (piece.type === 'pawn' && (square.row === 0 || square.row === 7)) return false;
+    return !isInCheck(placeRevivedPiece(gameState, piece, square), opponent, gameState.shrunkSquares);
+  });
+}
+
+function applyRevive(gameState: GameState, color: PieceColor, target: Position, pieceType?: PieceType): GameState | null {
+  const piece = getRevivePiece(gameState, color, pieceType);
+  if (!piece) return null;
+
+  const capturedPieces = gameState.capturedPieces.filter(captured => captured !== piece);
+  playSound('respawn');
+
+  return {
+    ...gameState,
+    board: placeRevivedPiece(gameState, piece, target),
+    capturedPieces,
+    respawnQueue: createRespawnQueue({ ...gameState, capturedPieces }),
+    // Material changed, so the fifty-move count starts over
+    halfmoveClock: 0
+  };
+}
+
+// Weighs every captured type on its safest central squares, letting the search pick
+// both the piece and the square
+function chooseReviveTarget(context: PowerUpAIContext): PowerUpAIChoice | null {
+  const { gameState } = context;
+  const color = gameState.currentPlayer;
+
+  const centerDistance = (square: Position) => Math.abs(3.5 - square.row) + Math.abs(3.5 - square.col);
+  const candidates = getReviveChoices(gameState, color).flatMap(({ type }) =>
+    getReviveTargets(gameState, color, type)
+      .filter(square => !isSquareAttacked(gameState.board, square, getOpponent(color), gameState.shrunkSquares))
+      .sort((a, b) => centerDistance(a) - centerDistance(b))
+      .slice(0, MAX_AI_CANDIDATES)
+      .map(square => ({ pieceType: type, square }))
+  );
+  const choice = pickByEvaluation(
+    context,
+    candidates,
+    ({ pieceType, square }) => applyRevive(gameState, color, square, pieceType)!,
+    candidates.length
+  );
+
+  return choice
+    ? {
+      target: choice.square,
+      pieceType: choice.pieceType,
+      message: `REVIVED ITS ${choice.pieceType.toUpperCase()} ON ${getSquareName(choice.square).toUpperCase()}`
+    }
+    : null;
+}
+
+registerPowerUp({
+  id: 'teleport',
+  name: 'Teleport',
+  description: 'Jump one of your pieces to any open square!',
+  rules: 'Spend your turn jumping one of your pieces to any open square. It can capture there, but never a king, never lands on a shrunk square, pawns avoid the first and last rank, and your own king must not end up in check.',
+  icon: '⚡',
+  spawnWeight: 1,
+  targeting: 'move',
+  targetPrompt: 'Teleport: pick one of your pieces, then a highlighted square',
+  getMoves: getTeleportMoves,
+  // The jump itself is the effect; the search already weighs every jump as a move
+  apply: (gameState) => gameState
+});
+
+registerPowerUp({
+  id: 'shield',
+  name: 'Shield',
+  description: 'Protect a piece from capture for 3 turns!',
+  rules: 'Pick one of your pieces (not the king): it cannot be captured for your opponent\'s next 3 moves. It still attacks and gives check as usual.',
+  icon: '🛡️',
+  spawnWeight: 1,
+  targeting: 'ownPiece',
+  targetPrompt: 'Shield: pick one of your highlighted pieces (kings cannot be shielded)',
+  getTargets: getShieldTargets,
+  apply: (gameState, _color, target) => applyShield(gameState, target!),
+  chooseForComputer: chooseShieldTarget
+});
+
+registerPowerUp({
+  id: 'extraMove',
+  name: 'Extra Move',
+  description: 'Move twice this turn (a check ends the turn early)!',
+  rules: 'Move twice this turn; a correct trivia answer earns the same. Every move counts toward the shrink and respawn cycles, and a move that gives check ends the turn at once.',
+  icon: '⏩',
+  spawnWeight: 1,
+  targeting: 'none',
+  // Only the side to move can stretch its own turn
+  apply: (gameState, color) => color === gameState.currentPlayer
+    ? { ...gameState, extraMoves: gameState.extraMoves + 1 }
+    : null,
+  // A move that gives check ends the turn at once, so the extra move would be wasted
+  chooseForComputer: ({ gameState, principalVariation }) => {
+    const plannedMove = principalVariation[0];
+    const opponent = getOpponent(gameState.currentPlayer);
+    if (!plannedMove || isInCheck(applyMoveToBoard(gameState.board, plannedMove), opponent, gameState.shrunkSquares)) {
+      return null;
+    }
+    return { message: 'TOOK AN EXTRA MOVE' };
+  }
+});
+
+registerPowerUp({
+  id: 'trap',
+  name: 'Trap',
+  description: 'Secretly arm a square that catches the next enemy piece to step on it!',
+  rules: 'Secretly arms an empty square. The next enemy piece to step on it is captured; a king is stunned and cannot move on its next turn instead. Traps vanish when their square shrinks.',
+  icon: '💥',
+  spawnWeight: 1,
+  targeting: 'emptySquare',
+  targetPrompt: 'Trap: pick an empty square to arm in secret',
+  isTargetSecret: true,
+  getTargets: getTrapTargets,
+  apply: (gameState, color, target) => {
+    const key = positionKey(target!);
+    // A fresh trap is secret again, even on a square a Scout uncovered
+    const revealedTraps = new Set(gameState.revealedTraps);
+    revealedTraps.delete(key);
+    return {
+      ...gameState,
+      trapSquares: new Map(gameState.trapSquares).set(key, color),
+      revealedTraps
+    };
+  },
+  // Arms the square the search expects the opponent to move to next
+  chooseForComputer: ({ gameState, principalVariation }) => {
+    const reply = principalVariation[1];
+    if (!reply) return null;
+
+    const key = positionKey(reply.to);
+    const target = getTrapTargets(gameState, gameState.currentPlayer).find(square => positionKey(square) === key);
+    return target ? { target, message: 'SET A HIDDEN TRAP' } : null;
+  }
+});
+
+registerPowerUp({
+  id: 'freeze',
+  name: 'Freeze',
+  description: 'Stop an enemy piece from moving for 2 turns!',
+  rules: 'Pick an enemy piece other than the king: it cannot move on its side\'s next 2 turns. A frozen piece still attacks, defends and gives check, and can still be captured.',
+  icon: '❄️',
+  spawnWeight: 1,
+  targeting: 'enemyPiece',
+  targetPrompt: 'Freeze: pick a highlighted enemy piece (kings cannot be frozen)',
+  getTargets: getFreezeTargets,
+  apply: (gameState, _color, target) => applyFreeze(gameState, target!),
+  // Freezes the most valuable enemy pieces first, as far as the search finds it pays
+  chooseForComputer: (context) => {
+    const { gameState } = context;
+    const candidates = getFreezeTargets(gameState, gameState.currentPlayer)
+      .sort((a, b) => pieceValueAt(gameState, b) - pieceValueAt(gameState, a));
+    const target = pickByEvaluation(context, candidates, square => applyFreeze(gameState, square));
+    if (!target) return null;
+
+    const piece = gameState.board[target.row][target.col]!;
+    return { target, message: `FROZE THE ${piece.type.toUpperCase()} ON ${getSquareName(target).toUpperCase()}` };
+  }
+});
+
+registerPowerUp({
+  id: 'swap',
+  name: 'Swap',
+  description: 'Make two of your own pieces trade places!',
+  rules: 'Spend your turn swapping two of your own pieces of different types. Neither may be stunned or frozen, pawns avoid the first and last rank, and your own king must not end up in check.',
+  icon: '🔄',
+  spawnWeight: 1,
+  targeting: 'move',
+  targetPrompt: 'Swap: pick one of your pieces, then the piece to trade places with',
+  getMoves: getSwapMoves,
+  // The swap itself is the effect; the search already weighs every swap as a move
+  apply: (gameState) => gameState
+});
+
+registerPowerUp({
+  id: 'bomb',
+  name: 'Bomb',
+  description: 'Blast away every piece next to an empty square!',
+  rules: 'Pick an empty square: every piece on the eight squares around it is captured, yours included, except kings and shielded pieces. The blast may not leave either king in check. You still make your move afterwards.',
+  icon: '💣',
+  spawnWeight: 1,
+  targeting: 'emptySquare',
+  targetPrompt: 'Bomb: pick an empty square to blast the pieces around it',
+  getTargets: getBombTargets,
+  apply: (gameState, _color, target) => {
+    playSound('emergency');
+    return applyBomb(gameState, target!);
+  },
+  chooseForComputer: chooseBombTarget
+});
+
+registerPowerUp({
+  id: 'revive',
+  name: 'Revive',
+  description: 'Bring back one of your captured pieces right now!',
+  rules: 'A captured piece of your choice returns at once, as the same piece, on an empty square of your choice in your own half, instead of waiting for the respawn cycle. It may not arrive giving check. You still make your move afterwards.',
+  icon: '💖',
+  spawnWeight: 1,
+  targeting: 'emptySquare',
+  targetPrompt: 'Revive: pick one of your captured pieces, then an empty square in your half',
+  getPieceChoices: getReviveChoices,
+  getTargets: getReviveTargets,
+  apply: (gameState, color, target, pieceType) => applyRevive(gameState, color, target!, pieceType),
+  chooseForComputer: chooseReviveTarget
+});
+
+registerPowerUp({
+  id: 'scout',
+  name: 'Scout',
+  description: 'Reveal every hidden enemy trap!',
+  rules: 'Uncovers every trap your opponent has armed, for both players to see, until it is sprung or its square shrinks. Traps armed afterwards stay hidden.',
+  icon: '🔭',
+  spawnWeight: 1,
+  targeting: 'none',
+  apply: (gameState, color) => {
+    const revealedTraps = new Set(gameState.revealedTraps);
+    gameState.trapSquares.forEach((owner, key) => {
+      if (owner !== color) revealedTraps.add(key);
+    });
+    return { ...gameState, revealedTraps };
+  },
+  // The computer cannot see where hidden traps are either, but arming one is seen by
+  // both sides, so it scouts only while the opponent has a trap still hidden
+  chooseForComputer: ({ gameState }) => {
+    const opponent = getOpponent(gameState.currentPlayer);
+    const hasHiddenTrap = [...gameState.trapSquares].some(([key, owner]) =>
+      owner === opponent && !gameState.revealedTraps.has(key)
+    );
+    return hasHiddenTrap ? { message: 'SCOUTED FOR TRAPS' } : null;
+  }
+});
@@ -0,0 +1,46 @@
+import { GameState } from '../types/chess';
+
+// Every random mechanic draws from a mulberry32 generator whose whole state is a
+// single 32-bit integer kept on GameState, so the same seed and the same moves
+// always replay the same game (and it survives cloning and the network)
+export interface Random {
+  next: () => number;
+  int: (max: number) => number;
+  pick: <T>(items: T[]) => T;
+  id: () => string;
+  getState: () => number;
+}
+
+export function createSeed(): number {
+  // The only place allowed to use Math.random: picking a fresh seed for a new game
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+export function createRandom(state: number): Random {
+  let current = state >>> 0;
+
+  const next = () => {
+    current = (current + 0x6d2b79f5) >>> 0;
+    let t = current;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+
+  const int = (max: number) => Math.floor(next() * max);
+
+  return {
+    next,
+    int,
+    pick: (items) => items[int(items.length)],
+    id: () => int(0x100000000).toString(36).padStart(7, '0'),
+    getState: () => current
+  };
+}
+
+// Runs a mechanic with the game's generator and stores the advanced state back
+export function withRandom(gameState: GameState, mechanic: (random: Random) => GameState): GameState {
+  const random = createRandom(gameState.rngState);
+  const newGameState = mechanic(random);
+  return { ...newGameState, rngState: random.getState() };
+}
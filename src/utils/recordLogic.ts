@@ -0,0 +1,577 @@
+import {
+  ChessPiece,
+  GameAction,
+  GameRecord,
+  GameState,
+  InventoryRules,
+  Move,
+  PieceColor,
+  PieceType,
+  Position,
+  RespawnRules
+} from '../types/chess';
+import {
+  getLegalMoves,
+  getMoveOptions,
+  getSquareName,
+  parseSquareName,
+  applyMoveToBoard,
+  getEnPassantTarget,
+  isInCheck,
+  isCheckmate
+} from './chessLogic';
+import {
+  createInitialGameState,
+  isGameInProgress,
+  playMove,
+  playEvacuation,
+  playRespawn,
+  getPendingDecision,
+  grantExtraMove,
+  passTurn
+} from './gameLogic';
+import { parsePosition } from './positionLogic';
+import { getPendingEvacuation } from './shrinkLogic';
+import { getShrinkPattern } from './shrinkPatternRegistry';
+import { formatRespawnRules, parseRespawnRules } from './respawnLogic';
+// Aliased so the hooks lint rule does not mistake it for a React hook
+import {
+  usePowerUp as activatePowerUp,
+  discardPowerUp,
+  getPowerUpMoves,
+  getHeldPowerUps,
+  formatInventoryRules,
+  parseInventoryRules
+} from './powerupLogic';
+
+// Battle Royale game records are a PGN superset. The standard seven tags are
+// kept, followed by:
+//   [Variant "Battle Royale"]
+//   [BRFormat "1"]          version of this format
+//   [BRSeed "2750183311"]   seed of the game's random generator
+//   [BRInventory "3/12"]    power-up inventory rules, in the position notation's inv form
+//   [BRShrink "classic"]    id of the shrink pattern (games without it used the classic one)
+//   [BRVoid "lost"]         whether pieces lost to the shrink respawn ("respawn") or not
+//                           ("lost", and games without it)
+//   [BRRespawn "home/3"]    respawn rules, in the position notation's respawn form
+// Games that start from a custom position also carry the standard [SetUp "1"]
+// and a [FEN] tag holding the full Battle Royale position notation.
+//
+// Moves are plain SAN, except teleports, which name both squares around an @
+// (Ng1@d4, or Ng1@xd4 when it captures), and swaps, which name both pieces
+// around a <> (Ng1<>Be4). What chess cannot express is written as embedded
+// commands inside comments, in the style of [%clk]:
+//   player actions, replayed in order on import
+//     [%use white extraMove]    power-up activated
+//     [%use white shield@c3]    power-up used on the piece on a square
+//     [%use white revive N@d4]  power-up bringing back a captured piece of a type on a square
+//     [%discard white trap]     held power-up thrown away
+//     [%trivia white correct]   trivia answer; a correct one grants an extra move
+//     [%pass black]             turn handed over without moving
+//     [%evacuate white e2]      king caught by a shrink fled to a square
+//     [%place white N@d4]       lost piece brought back as a type its owner picked, on a
+//                               square they picked (N alone when the square is random)
+//   outcomes of the preceding move's mechanics, checked on import
+//     [%pickup white shield]    power-up collected
+//     [%trap d5]                the mover ran into an enemy trap
+//     [%shrink a1,h1]           squares removed from the board
+//     [%respawn white N@d4]     captured piece returned as its rolled type
+//     [%veteran black B@e7]     idle pawn transformed
+//     [%fusion white B+N@c3]    idle neighbours fused into one piece on a square
+//
+// Since every random mechanic draws from the seed, replaying the moves and
+// actions rebuilds each GameState exactly; the outcome commands let a reader
+// follow the game and let the importer notice a record that no longer matches.
+//
+// Up to format 2 a king caught by a shrink fled on its own, so those records cannot
+// replay past a shrink that catches one. Up to format 3 a respawned piece could land
+// giving check, so those records may not replay past a respawn that did. Up to
+// format 4 pieces never fused, so those stop matching at the first fusion. Up to
+// format 5 Revive always brought back the most valuable captured piece, so those
+// records name no piece and cannot replay past a Revive.
+export const RECORD_FORMAT_VERSION = 6;
+
+// Format 1 games were played holding one power-up at a time, kept until used
+const FORMAT_1_INVENTORY: InventoryRules = { slots: 1, heldTurns: 0, hidden: false };
+
+const STANDARD_TAGS = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result'];
+const OUTCOME_COMMANDS = ['pickup', 'trap', 'shrink', 'respawn', 'veteran', 'fusion'];
+
+const PIECE_LETTERS: Record<PieceType, string> = {
+  king: 'K',
+  queen: 'Q',
+  rook: 'R',
+  bishop: 'B',
+  knight: 'N',
+  pawn: 'P'
+};
+
+export interface ReplayStep {
+  action: GameAction;
+  gameState: GameState;
+  events: string[];
+}
+
+export interface ImportedGame {
+  record: GameRecord;
+  steps: ReplayStep[];
+  gameState: GameState;
+}
+
+function createStartState(
+  record: Pick<GameRecord, 'seed' | 'startPosition' | 'inventory' | 'shrinkPattern' | 'voidRespawn' | 'respawnRules'>
+): GameState {
+  const gameState = record.startPosition ? parsePosition(record.startPosition) : createInitialGameState(record.seed);
+  return {
+    ...gameState,
+    inventoryRules: record.inventory ?? gameState.inventoryRules,
+    shrinkPattern: record.shrinkPattern ?? gameState.shrinkPattern,
+    voidRespawn: record.voidRespawn ?? gameState.voidRespawn,
+    respawnRules: record.respawnRules ?? gameState.respawnRules
+  };
+}
+
+function opponentOf(color: PieceColor): PieceColor {
+  return color === 'white' ? 'black' : 'white';
+}
+
+export function applyGameAction(gameState: GameState, action: GameAction): { gameState: GameState; events: string[] } {
+  switch (action.type) {
+    case 'move': {
+      const { newGameState, events } = playMove(gameState, action.move);
+      return { gameState: newGameState, events };
+    }
+    case 'usePowerUp':
+      return {
+        gameState: activatePowerUp(gameState, action.color, action.powerUpType, action.target, action.pieceType),
+        events: []
+      };
+    case 'discardPowerUp':
+      return { gameState: discardPowerUp(gameState, action.color, action.powerUpType), events: [] };
+    case 'trivia':
+      return { gameState: action.correct ? grantExtraMove(gameState, action.color) : gameState, events: [] };
+    case 'pass':
+      return { gameState: passTurn(gameState, action.color), events: [] };
+    case 'evacuate':
+      return { gameState: playEvacuation(gameState, action.color, action.to), events: [] };
+    case 'placeRespawn':
+      return { gameState: playRespawn(gameState, action.color, action.pieceType, action.to), events: [] };
+  }
+}
+
+export function replayGameRecord(record: GameRecord): ReplayStep[] {
+  let gameState = createStartState(record);
+
+  return record.actions.map(action => {
+    const next = applyGameAction(gameState, action);
+    gameState = next.gameState;
+    return { action, ...next };
+  });
+}
+
+function getBaseNotation(move: Move, legalMoves: Move[]): string {
+  if (move.isCastling) return move.to.col > move.from.col ? 'O-O' : 'O-O-O';
+
+  const capture = move.captured ? 'x' : '';
+  const target = getSquareName(move.to);
+  const promotion = move.promotion ? `=${PIECE_LETTERS[move.promotion]}` : '';
+
+  if (move.swappedWith) {
+    return `${PIECE_LETTERS[move.piece.type]}${getSquareName(move.from)}<>${PIECE_LETTERS[move.swappedWith.type]}${target}`;
+  }
+
+  if (move.usedPowerUp?.type === 'teleport') {
+    return `${PIECE_LETTERS[move.piece.type]}${getSquareName(move.from)}@${capture}${target}`;
+  }
+
+  if (move.piece.type === 'pawn') {
+    return `${capture ? getSquareName(move.from)[0] : ''}${capture}${target}${promotion}`;
+  }
+
+  // Name the origin file, rank or both only when another piece of the same type could go there too
+  const rivals = legalMoves.filter(other =>
+    !other.usedPowerUp &&
+    other.piece.type === move.piece.type &&
+    other.to.row === move.to.row && other.to.col === move.to.col &&
+    (other.from.row !== move.from.row || other.from.col !== move.from.col)
+  );
+  const origin = getSquareName(move.from);
+  let disambiguation = '';
+  if (rivals.length > 0) {
+    if (rivals.every(other => other.from.col !== move.from.col)) {
+      disambiguation = origin[0];
+    } else if (rivals.every(other => other.from.row !== move.from.row)) {
+      disambiguation = origin[1];
+    } else {
+      disambiguation = origin;
+    }
+  }
+
+  return `${PIECE_LETTERS[move.piece.type]}${disambiguation}${capture}${target}`;
+}
+
+export function getMoveNotation(gameState: GameState, move: Move): string {
+  const mover = move.piece.color;
+  const legalMoves = getLegalMoves(gameState.board, mover, gameState.shrunkSquares, getMoveOptions(gameState));
+  const board = applyMoveToBoard(gameState.board, move);
+  const opponent = opponentOf(mover);
+
+  let suffix = '';
+  if (isInCheck(board, opponent, gameState.shrunkSquares)) {
+    const isMate = isCheckmate(board, opponent, gameState.shrunkSquares, {
+      ...getMoveOptions(gameState),
+      enPassantTarget: getEnPassantTarget(move)
+    });
+    suffix = isMate ? '#' : '+';
+  }
+
+  return `${getBaseNotation(move, legalMoves)}${suffix}`;
+}
+
+function describePiece(piece: ChessPiece, position: Position): string {
+  return `${piece.color} ${PIECE_LETTERS[piece.type]}@${getSquareName(position)}`;
+}
+
+function getPiecesById(gameState: GameState): Map<string, ChessPiece> {
+  const pieces = new Map<string, ChessPiece>();
+  gameState.board.forEach(row => row.forEach(piece => {
+    if (piece) pieces.set(piece.id, piece);
+  }));
+  return pieces;
+}
+
+// The outcome commands for everything the mechanics changed between two states
+function getOutcomeCommands(before: GameState, after: GameState): string[] {
+  const commands: string[] = [];
+
+  (['white', 'black'] as PieceColor[]).forEach(color => {
+    const heldBefore = new Set(getHeldPowerUps(before, color).map(powerUp => powerUp.id));
+    getHeldPowerUps(after, color)
+      .filter(powerUp => !heldBefore.has(powerUp.id))
+      .forEach(powerUp => commands.push(`pickup ${color} ${powerUp.type}`));
+  });
+
+  before.trapSquares.forEach((_, key) => {
+    if (after.trapSquares.has(key) || after.shrunkSquares.has(key)) return;
+    const [row, col] = key.split('-').map(Number);
+    commands.push(`trap ${getSquareName({ row, col })}`);
+  });
+
+  const shrunk: string[] = [];
+  after.shrunkSquares.forEach(key => {
+    if (before.shrunkSquares.has(key)) return;
+    const [row, col] = key.split('-').map(Number);
+    shrunk.push(getSquareName({ row, col }));
+  });
+  if (shrunk.length > 0) {
+    commands.push(`shrink ${shrunk.sort().join(',')}`);
+  }
+
+  const previousPieces = getPiecesById(before);
+  after.board.forEach((row, rowIndex) => row.forEach((piece, colIndex) => {
+    if (!piece) return;
+    const previous = previousPieces.get(piece.id);
+    const position = { row: rowIndex, col: colIndex };
+
+    if (!previous) {
+      commands.push(`respawn ${describePiece(piece, position)}`);
+    } else if (piece.transformationType === 'veteran' && previous.transformationType !== 'veteran') {
+      commands.push(`veteran ${describePiece(piece, position)}`);
+    } else if (piece.fusionMoves && !previous.fusionMoves) {
+      const absorbed = piece.fusionMoves.map(type => PIECE_LETTERS[type]).join('+');
+      commands.push(`fusion ${piece.color} ${PIECE_LETTERS[piece.type]}+${absorbed}@${getSquareName(position)}`);
+    }
+  }));
+
+  return commands;
+}
+
+function getActionCommand(action: Exclude<GameAction, { type: 'move' }>): string {
+  switch (action.type) {
+    case 'usePowerUp':
+      if (action.pieceType) {
+        return `use ${action.color} ${action.powerUpType} ${PIECE_LETTERS[action.pieceType]}@${getSquareName(action.target!)}`;
+      }
+      return `use ${action.color} ${action.powerUpType}${action.target ? `@${getSquareName(action.target)}` : ''}`;
+    case 'discardPowerUp':
+      return `discard ${action.color} ${action.powerUpType}`;
+    case 'trivia':
+      return `trivia ${action.color} ${action.correct ? 'correct' : 'incorrect'}`;
+    case 'pass':
+      return `pass ${action.color}`;
+    case 'evacuate':
+      return `evacuate ${action.color} ${getSquareName(action.to)}`;
+    case 'placeRespawn':
+      return `place ${action.color} ${PIECE_LETTERS[action.pieceType]}${action.to ? `@${getSquareName(action.to)}` : ''}`;
+  }
+}
+
+export function getResultTag(gameState: GameState): string {
+  if (gameState.winner === 'white') return '1-0';
+  if (gameState.winner === 'black') return '0-1';
+  if (gameState.winner === 'draw') return '1/2-1/2';
+  return '*';
+}
+
+function escapeTagValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function wrapMovetext(tokens: string[]): string {
+  const lines: string[] = [];
+  let line = '';
+  tokens.forEach(token => {
+    if (line && line.length + token.length + 1 > 80) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  });
+  if (line) lines.push(line);
+  return lines.join('\n');
+}
+
+export function exportGameRecord(record: GameRecord): string {
+  const startState = createStartState(record);
+  let gameState = startState;
+  const tokens: string[] = [];
+  let comment: string[] = [];
+  let moveNumber = Math.floor(gameState.turnCount / 2) + 1;
+  let needsNumber = true;
+
+  const flushComment = () => {
+    if (comment.length === 0) return;
+    tokens.push(`{${comment.map(command => `[%${command}]`).join(' ')}}`);
+    comment = [];
+    needsNumber = true;
+  };
+
+  record.actions.forEach(action => {
+    if (action.type === 'move') {
+      flushComment();
+
+      // Numbers are for readers only; extra moves and passes break strict alternation
+      const mover = action.move.piece.color;
+      if (mover === 'white') {
+        tokens.push(`${moveNumber}.`);
+      } else if (needsNumber) {
+        tokens.push(`${moveNumber}...`);
+      }
+      tokens.push(getMoveNotation(gameState, action.move));
+      needsNumber = mover === 'black';
+      if (mover === 'black') moveNumber++;
+    }
+
+    const next = applyGameAction(gameState, action);
+    comment.push(...(action.type === 'move'
+      ? getOutcomeCommands(gameState, next.gameState)
+      : [getActionCommand(action)]));
+    gameState = next.gameState;
+  });
+  flushComment();
+
+  const result = getResultTag(gameState);
+  tokens.push(result);
+
+  const tags: Record<string, string> = {
+    Event: 'Battle Royale Chess',
+    Site: '?',
+    Date: '????.??.??',
+    Round: '-',
+    White: '?',
+    Black: '?',
+    ...record.tags,
+    Result: result,
+    Variant: 'Battle Royale',
+    BRFormat: String(RECORD_FORMAT_VERSION),
+    BRSeed: String(record.seed),
+    BRInventory: formatInventoryRules(startState.inventoryRules),
+    BRShrink: startState.shrinkPattern,
+    BRVoid: startState.voidRespawn ? 'respawn' : 'lost',
+    BRRespawn: formatRespawnRules(startState.respawnRules),
+    ...(record.startPosition ? { SetUp: '1', FEN: record.startPosition } : {})
+  };
+  const tagOrder = [...STANDARD_TAGS, ...Object.keys(tags).filter(name => !STANDARD_TAGS.includes(name))];
+  const header = tagOrder.map(name => `[${name} "${escapeTagValue(tags[name])}"]`).join('\n');
+
+  return `${header}\n\n${wrapMovetext(tokens)}\n`;
+}
+
+function parseTags(text: string): { tags: Record<string, string>; movetext: string } {
+  const tags: Record<string, string> = {};
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  let index = 0;
+
+  for (; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (!line) continue;
+    const match = line.match(/^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/);
+    if (!match) break;
+    tags[match[1]] = match[2].replace(/\\(["\\])/g, '$1');
+  }
+
+  return { tags, movetext: lines.slice(index).join('\n') };
+}
+
+function parseActionCommand(name: string, args: string[]): GameAction | null {
+  const color = args[0];
+  if (color !== 'white' && color !== 'black') return null;
+
+  switch (name) {
+    case 'use': {
+      if (args[2] !== undefined) {
+        const [letter, square] = args[2].split('@');
+        const pieceType = (Object.keys(PIECE_LETTERS) as PieceType[]).find(type => PIECE_LETTERS[type] === letter);
+        const target = parseSquareName(square ?? '');
+        return args[1] && pieceType && target ? { type: 'usePowerUp', color, powerUpType: args[1], target, pieceType } : null;
+      }
+      const [powerUpType, square] = (args[1] ?? '').split('@');
+      if (!powerUpType) return null;
+      if (square === undefined) return { type: 'usePowerUp', color, powerUpType };
+      const target = parseSquareName(square);
+      return target ? { type: 'usePowerUp', color, powerUpType, target } : null;
+    }
+    case 'discard':
+      return args[1] ? { type: 'discardPowerUp', color, powerUpType: args[1] } : null;
+    case 'trivia':
+      return { type: 'trivia', color, correct: args[1] === 'correct' };
+    case 'pass':
+      return { type: 'pass', color };
+    case 'evacuate': {
+      const to = parseSquareName(args[1] ?? '');
+      return to ? { type: 'evacuate', color, to } : null;
+    }
+    case 'place': {
+      const [letter, square] = (args[1] ?? '').split('@');
+      const pieceType = (Object.keys(PIECE_LETTERS) as PieceType[]).find(type => PIECE_LETTERS[type] === letter);
+      if (!pieceType) return null;
+      if (square === undefined) return { type: 'placeRespawn', color, pieceType };
+      const to = parseSquareName(square);
+      return to ? { type: 'placeRespawn', color, pieceType, to } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+export function importGameRecord(text: string): ImportedGame {
+  const { tags, movetext } = parseTags(text);
+
+  if (!tags.BRSeed || !/^\d+$/.test(tags.BRSeed)) {
+    throw new Error('Not a Battle Royale game record (missing BRSeed tag)');
+  }
+  if (Number(tags.BRFormat ?? RECORD_FORMAT_VERSION) > RECORD_FORMAT_VERSION) {
+    throw new Error(`Record format ${tags.BRFormat} is newer than this game supports`);
+  }
+
+  const seed = Number(tags.BRSeed);
+  const startPosition = tags.SetUp === '1' && tags.FEN ? tags.FEN : undefined;
+  const inventory = tags.BRInventory !== undefined
+    ? parseInventoryRules(tags.BRInventory)
+    : Number(tags.BRFormat ?? RECORD_FORMAT_VERSION) < 2 ? FORMAT_1_INVENTORY : undefined;
+  if (inventory === null) {
+    throw new Error(`Invalid BRInventory tag "${tags.BRInventory}"`);
+  }
+  const shrinkPattern = tags.BRShrink;
+  if (shrinkPattern !== undefined && !getShrinkPattern(shrinkPattern)) {
+    throw new Error(`Unknown shrink pattern in BRShrink tag "${shrinkPattern}"`);
+  }
+  if (tags.BRVoid !== undefined && tags.BRVoid !== 'respawn' && tags.BRVoid !== 'lost') {
+    throw new Error(`Invalid BRVoid tag "${tags.BRVoid}"`);
+  }
+  const voidRespawn = tags.BRVoid !== undefined ? tags.BRVoid === 'respawn' : undefined;
+  let respawnRules: RespawnRules | undefined;
+  if (tags.BRRespawn !== undefined) {
+    const rules = parseRespawnRules(tags.BRRespawn);
+    if (!rules) throw new Error(`Invalid BRRespawn tag "${tags.BRRespawn}"`);
+    respawnRules = rules;
+  }
+  const actions: GameAction[] = [];
+  const steps: ReplayStep[] = [];
+  let gameState = createStartState({ seed, startPosition, inventory, shrinkPattern, voidRespawn, respawnRules });
+  // Outcome commands are checked against the move they follow once all its comments are read
+  let lastMove: { notation: string; outcomes: string[]; expected: string[] } | null = null;
+
+  const apply = (action: GameAction) => {
+    const next = applyGameAction(gameState, action);
+    const outcomes = action.type === 'move' ? getOutcomeCommands(gameState, next.gameState) : [];
+    actions.push(action);
+    steps.push({ action, ...next });
+    gameState = next.gameState;
+    return outcomes;
+  };
+
+  const checkLastMove = () => {
+    if (!lastMove) return;
+    const missing = lastMove.expected.find(command => !lastMove!.outcomes.includes(command));
+    if (missing) {
+      throw new Error(`After ${lastMove.notation} the record expects [%${missing}], but replaying it does not produce that`);
+    }
+    lastMove = null;
+  };
+
+  const tokenPattern = /\{([^}]*)\}|;[^\n]*|\$\d+|[()]|(1-0|0-1|1\/2-1\/2|\*)|\d+\.(?:\.\.)?|([^\s{};()$]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(movetext)) !== null) {
+    const [token, comment, result, notation] = match;
+
+    if (token === '(' || token === ')') {
+      throw new Error('Variations are not supported in game records');
+    }
+
+    if (comment !== undefined) {
+      for (const [, name, rawArgs] of comment.matchAll(/\[%(\w+)\s*([^\]]*)\]/g)) {
+        const args = rawArgs.trim().split(/\s+/);
+        if (OUTCOME_COMMANDS.includes(name)) {
+          lastMove?.expected.push(`${name} ${args.join(' ')}`);
+          continue;
+        }
+
+        const action = parseActionCommand(name, args);
+        if (action) {
+          checkLastMove();
+          apply(action);
+        }
+      }
+      continue;
+    }
+
+    if (result !== undefined) break;
+    if (!notation) continue;
+
+    checkLastMove();
+    if (!isGameInProgress(gameState)) {
+      throw new Error(`Move ${notation} comes after the game has ended`);
+    }
+    const evacuation = getPendingEvacuation(gameState);
+    if (evacuation) {
+      throw new Error(`Move ${notation} comes before the ${evacuation.color} king caught on ${getSquareName(evacuation.from)} has fled`);
+    }
+    const decision = getPendingDecision(gameState);
+    if (decision?.kind === 'respawn') {
+      throw new Error(`Move ${notation} comes before ${decision.color} has placed the returning piece`);
+    }
+
+    const mover = gameState.currentPlayer;
+    const wanted = notation.replace(/[+#!?]+$/, '').replace(/^0-0-0$/, 'O-O-O').replace(/^0-0$/, 'O-O');
+    const legalMoves = [
+      ...getLegalMoves(gameState.board, mover, gameState.shrunkSquares, getMoveOptions(gameState)),
+      ...getPowerUpMoves(gameState, mover)
+    ];
+    const move = legalMoves.find(candidate => getBaseNotation(candidate, legalMoves) === wanted);
+    if (!move) {
+      throw new Error(`Illegal move for ${mover}: ${notation}`);
+    }
+
+    lastMove = { notation, outcomes: apply({ type: 'move', move }), expected: [] };
+  }
+  checkLastMove();
+
+  return {
+    record: { seed, startPosition, inventory, shrinkPattern, voidRespawn, respawnRules, tags, actions },
+    steps,
+    gameState
+  };
+}
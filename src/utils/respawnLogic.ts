@@ -1,6 +1,17 @@
-import { GameState, ChessPiece, PieceColor, Position, PieceType } from '../types/chess';
-import { positionKey } from './chessLogic';
+import { GameState, ChessPiece, PieceColor, Position, PieceType, RespawnRules } from '../types/chess';
+import { isInCheck, positionKey } from './chessLogic';
 import { playSound } from './soundEffects';
+import { Random, withRandom } from './randomLogic';
+import { registerScheduledEvent } from './scheduleLogic';
+
+export const RESPAWN_EVENT = registerScheduledEvent({
+  id: 'respawn',
+  label: 'Captured piece respawns',
+  icon: '⚡',
+  period: 15,
+  offset: 0,
+  isActive: gameState => gameState.respawnQueue.length > 0
+});
 
 const PIECE_WEIGHTS = {
   pawn: 40,    // High chance
@@ -11,15 +22,23 @@ const PIECE_WEIGHTS = {
   king: 0      // Never respawn
 };
 
+// Pieces lost to the shrink queue up behind the captured ones when the game allows it
+function getLostPieces(gameState: GameState): ChessPiece[] {
+  return gameState.voidRespawn
+    ? [...gameState.capturedPieces, ...gameState.voidPieces.map(({ piece }) => piece)]
+    : gameState.capturedPieces;
+}
+
 export function createRespawnQueue(gameState: GameState): { player: PieceColor; piece: ChessPiece }[] {
   const queue: { player: PieceColor; piece: ChessPiece }[] = [];
+  const lostPieces = getLostPieces(gameState);
   
   // Count pieces per player
   const playerPieces = new Map<PieceColor, number>();
   playerPieces.set('white', 0);
   playerPieces.set('black', 0);
   
-  for (const piece of gameState.capturedPieces) {
+  for (const piece of lostPieces) {
     playerPieces.set(piece.color, (playerPieces.get(piece.color) || 0) + 1);
   }
   
@@ -30,7 +49,7 @@ export function createRespawnQueue(gameState: GameState): { player: PieceColor;
     // Alternate between players for fair distribution
     const players: PieceColor[] = ['white', 'black'];
     for (const player of players) {
-      const playerCapturedPieces = gameState.capturedPieces.filter(p => p.color === player);
+      const playerCapturedPieces = lostPieces.filter(p => p.color === player);
       if (i < playerCapturedPieces.length) {
         queue.push({ player, piece: playerCapturedPieces[i] });
       }
@@ -40,62 +59,185 @@ export function createRespawnQueue(gameState: GameState): { player: PieceColor;
   return queue;
 }
 
+export const DEFAULT_RESPAWN_RULES: RespawnRules = { placement: 'random', draft: 0 };
+export const DRAFT_SIZES = [0, 2, 3];
+
+// The ranks nearest its own edge of the board make up a side's home zone
+const HOME_ZONE_RANKS = 2;
+
+export function isValidRespawnRules(rules: RespawnRules): boolean {
+  return (rules.placement === 'random' || rules.placement === 'home') && DRAFT_SIZES.includes(rules.draft);
+}
+
+// Written as the placement with an optional /draft size, e.g. random or home/3
+export function formatRespawnRules(rules: RespawnRules): string {
+  return `${rules.placement}${rules.draft > 0 ? `/${rules.draft}` : ''}`;
+}
+
+export function parseRespawnRules(text: string): RespawnRules | null {
+  const match = text.match(/^(random|home)(?:\/(\d+))?$/);
+  if (!match) return null;
+  const rules = { placement: match[1] as RespawnRules['placement'], draft: Number(match[2] ?? 0) };
+  return isValidRespawnRules(rules) ? rules : null;
+}
+
+// Whether the owner of a returning piece has anything to choose under these rules
+function isChosenByOwner(rules: RespawnRules): boolean {
+  return rules.placement === 'home' || rules.draft > 0;
+}
+
 export function processRespawnQueue(gameState: GameState): GameState {
   if (gameState.respawnQueue.length === 0) return gameState;
   
-  const newBoard = gameState.board.map(row => [...row]);
+  return withRandom(gameState, random => respawnNextPiece(gameState, random));
+}
+
+function respawnNextPiece(gameState: GameState, random: Random): GameState {
   const newRespawnQueue = [...gameState.respawnQueue];
-  const newCapturedPieces = [...gameState.capturedPieces];
   
   // Get next piece to respawn
   const nextRespawn = newRespawnQueue.shift();
   if (!nextRespawn) return gameState;
+
+  if (isChosenByOwner(gameState.respawnRules)) {
+    const { draft } = gameState.respawnRules;
+    const types = draft > 0
+      ? rollDraft(nextRespawn.piece, draft, random)
+      : [selectWeightedPiece(nextRespawn.piece, random).type];
+    return settleRespawn({
+      ...gameState,
+      respawnQueue: newRespawnQueue,
+      pendingRespawn: { piece: nextRespawn.piece, types }
+    });
+  }
   
   // Find safe spawn position
-  const safePosition = findSafeSpawnPosition(newBoard, gameState.shrunkSquares, gameState.powerUps);
+  const safePosition = findSafeSpawnPosition(gameState, random);
   if (!safePosition) {
     // No safe position available, put back in queue
-    newRespawnQueue.unshift(nextRespawn);
-    return {
-      ...gameState,
-      respawnQueue: newRespawnQueue
-    };
+    return gameState;
   }
   
   // Create respawned piece with weighted selection
-  const respawnedPiece = selectWeightedPiece(nextRespawn.piece);
+  const respawnedPiece = selectWeightedPiece(nextRespawn.piece, random);
+
+  // A piece that would give check straight away lands elsewhere; otherwise the first
+  // draw stands, so games from before the rule replay unchanged
+  let position: Position | undefined = safePosition;
+  if (givesCheck(gameState, respawnedPiece, safePosition)) {
+    const squares = getRespawnSquares(gameState, respawnedPiece);
+    if (squares.length === 0) return gameState;
+    position = random.pick(squares);
+  }
+
+  return placePiece({ ...gameState, respawnQueue: newRespawnQueue }, respawnedPiece, position, random);
+}
+
+// Puts a returning piece on the board and takes it off the lists of lost pieces
+function placePiece(gameState: GameState, respawnedPiece: ChessPiece, position: Position, random: Random): GameState {
+  const newBoard = gameState.board.map(row => [...row]);
   
   // Place piece on board with respawn animation flag
-  newBoard[safePosition.row][safePosition.col] = {
+  newBoard[position.row][position.col] = {
     ...respawnedPiece,
-    id: `${respawnedPiece.id}-respawn-${Date.now()}`,
-    hasMoved: false,
+    id: `${respawnedPiece.id}-respawn-${random.id()}`,
+    // Respawned pawns keep their double step; anything else must not regain castling rights
+    hasMoved: respawnedPiece.type !== 'pawn',
     turnsWithoutMoving: 0,
+    // It comes back plain, whatever it had become before it was lost
+    isTransformed: false,
+    transformationType: undefined,
+    fusionMoves: undefined,
     isRespawning: true
   };
   
   // Play respawn sound
   playSound('respawn');
   
-  // Remove from captured pieces
-  const pieceIndex = newCapturedPieces.findIndex(p => p.id === nextRespawn.piece.id);
-  if (pieceIndex !== -1) {
-    newCapturedPieces.splice(pieceIndex, 1);
-  }
-  
   return {
     ...gameState,
     board: newBoard,
-    capturedPieces: newCapturedPieces,
-    respawnQueue: newRespawnQueue
+    capturedPieces: gameState.capturedPieces.filter(piece => piece.id !== respawnedPiece.id),
+    voidPieces: gameState.voidPieces.filter(({ piece }) => piece.id !== respawnedPiece.id),
+    // Material changed, so the fifty-move count starts over
+    halfmoveClock: 0
   };
 }
 
-function findSafeSpawnPosition(
-  board: (ChessPiece | null)[][],
-  shrunkSquares: Set<string>,
-  powerUps: any[]
-): Position | null {
+// A returning piece waiting on its owner, with the squares each rolled type may take.
+// Types with nowhere to go are left out.
+export interface RespawnDecision {
+  color: PieceColor;
+  piece: ChessPiece;
+  choices: { type: PieceType; squares: Position[] }[];
+}
+
+export function getPendingRespawn(gameState: GameState): RespawnDecision | null {
+  const pending = gameState.pendingRespawn;
+  if (!pending) return null;
+  const choices = pending.types
+    .map(type => ({ type, squares: getRespawnSquares(gameState, { ...pending.piece, type }) }))
+    .filter(choice => choice.squares.length > 0);
+  return { color: pending.piece.color, piece: pending.piece, choices };
+}
+
+// Brings the waiting piece back as `pieceType`, on `to` in home placement or on a
+// random square of its choice otherwise. Returns the state unchanged when the type
+// was not rolled or the square is not one the piece may take.
+export function placeRespawn(gameState: GameState, pieceType: PieceType, to?: Position): GameState {
+  const decision = getPendingRespawn(gameState);
+  const choice = decision?.choices.find(option => option.type === pieceType);
+  if (!decision || !choice) return gameState;
+
+  const isHome = gameState.respawnRules.placement === 'home';
+  if (isHome !== (to !== undefined)) return gameState;
+  if (to && !choice.squares.some(square => square.row === to.row && square.col === to.col)) return gameState;
+
+  const placingState = { ...gameState, pendingRespawn: null };
+  return withRandom(placingState, random =>
+    placePiece(placingState, { ...decision.piece, type: pieceType }, to ?? random.pick(choice.squares), random)
+  );
+}
+
+// A waiting piece with no type left that has a square goes back to the front of the
+// queue. Fleeing kings can take the last square, so this runs after every evacuation.
+export function settleRespawn(gameState: GameState): GameState {
+  const decision = getPendingRespawn(gameState);
+  if (!decision || decision.choices.length > 0) return gameState;
+
+  return {
+    ...gameState,
+    respawnQueue: [{ player: decision.color, piece: decision.piece }, ...gameState.respawnQueue],
+    pendingRespawn: null
+  };
+}
+
+// Squares a returning piece may take: free, not next to a power-up and not giving
+// check. In home placement only the owner's home zone counts, and the zone reaches
+// further up the board while shrinking leaves it without room.
+export function getRespawnSquares(gameState: GameState, piece: ChessPiece): Position[] {
+  const squares = getSpawnSquares(gameState).filter(square => !givesCheck(gameState, piece, square));
+  if (gameState.respawnRules.placement !== 'home') return squares;
+
+  for (let ranks = HOME_ZONE_RANKS; ranks <= 8; ranks++) {
+    const zone = squares.filter(square => getHomeRank(square, piece.color) < ranks);
+    if (zone.length > 0) return zone;
+  }
+  return [];
+}
+
+// How many ranks the square lies from the side's own edge of the board
+function getHomeRank(square: Position, color: PieceColor): number {
+  return color === 'white' ? 7 - square.row : square.row;
+}
+
+function givesCheck(gameState: GameState, piece: ChessPiece, square: Position): boolean {
+  const board = gameState.board.map(row => [...row]);
+  board[square.row][square.col] = piece;
+  return isInCheck(board, piece.color === 'white' ? 'black' : 'white', gameState.shrunkSquares);
+}
+
+function getSpawnSquares(gameState: GameState): Position[] {
   const availableSquares: Position[] = [];
   
   for (let row = 0; row < 8; row++) {
@@ -104,16 +246,21 @@ function findSafeSpawnPosition(
       const key = positionKey(pos);
       
       // Check if square is safe (not shrunk, not occupied, not near powerup)
-      if (!shrunkSquares.has(key) && !board[row][col] && !isNearPowerUp(pos, powerUps)) {
+      if (!gameState.shrunkSquares.has(key) && !gameState.board[row][col] && !isNearPowerUp(pos, gameState.powerUps)) {
         availableSquares.push(pos);
       }
     }
   }
   
+  return availableSquares;
+}
+
+function findSafeSpawnPosition(gameState: GameState, random: Random): Position | null {
+  const availableSquares = getSpawnSquares(gameState);
   if (availableSquares.length === 0) return null;
   
   // Random selection from available squares
-  return availableSquares[Math.floor(Math.random() * availableSquares.length)];
+  return random.pick(availableSquares);
 }
 
 function isNearPowerUp(pos: Position, powerUps: any[]): boolean {
@@ -124,7 +271,7 @@ function isNearPowerUp(pos: Position, powerUps: any[]): boolean {
   });
 }
 
-function selectWeightedPiece(originalPiece: ChessPiece): ChessPiece {
+function selectWeightedPiece(originalPiece: ChessPiece, random: Random): ChessPiece {
   // Create weighted selection pool
   const weightedTypes: PieceType[] = [];
   
@@ -135,10 +282,20 @@ function selectWeightedPiece(originalPiece: ChessPiece): ChessPiece {
   });
   
   // Select random type from weighted pool
-  const selectedType = weightedTypes[Math.floor(Math.random() * weightedTypes.length)];
+  const selectedType = random.pick(weightedTypes);
   
   return {
     ...originalPiece,
     type: selectedType
   };
 }
+
+// Distinct types for the owner to pick from, drawn with the usual weights
+function rollDraft(originalPiece: ChessPiece, size: number, random: Random): PieceType[] {
+  const types: PieceType[] = [];
+  while (types.length < size) {
+    const { type } = selectWeightedPiece(originalPiece, random);
+    if (!types.includes(type)) types.push(type);
+  }
+  return types;
+}
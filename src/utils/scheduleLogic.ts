@@ -0,0 +1,59 @@
+import { GameState } from '../types/chess';
+
+// A mechanic that fires on a fixed cycle of turns
+export interface ScheduledEvent {
+  id: string;
+  // Shown in the timeline of upcoming events
+  label: string;
+  icon: string;
+  // Fires after every turn whose count leaves `offset` when divided by `period`;
+  // the start of the game (turn 0) never fires anything
+  period: number;
+  offset: number;
+  // Whether the event will still do anything in this game; inactive events stay off
+  // the timeline but keep their slot in the cycle
+  isActive?: (gameState: GameState) => boolean;
+}
+
+export interface UpcomingEvent {
+  event: ScheduledEvent;
+  turnsUntil: number;
+}
+
+// Every turn cycle in the game. Each mechanic registers its own event, then asks
+// isEventDue when to fire, and the UI reads the same timeline, so no cycle length
+// lives anywhere but in its registration.
+const schedule = new Map<string, ScheduledEvent>();
+
+export function registerScheduledEvent(event: ScheduledEvent): ScheduledEvent {
+  if (schedule.has(event.id)) {
+    throw new Error(`Scheduled event "${event.id}" is already registered`);
+  }
+  if (!Number.isInteger(event.period) || event.period < 1 || event.offset < 0 || event.offset >= event.period) {
+    throw new Error(`Scheduled event "${event.id}" needs a period of at least 1 and an offset below it`);
+  }
+  schedule.set(event.id, event);
+  return event;
+}
+
+export function getScheduledEvents(): ScheduledEvent[] {
+  return [...schedule.values()];
+}
+
+export function isEventDue(event: ScheduledEvent, turnCount: number): boolean {
+  return turnCount > 0 && turnCount % event.period === event.offset;
+}
+
+// Turns still to be played before the event next fires (1 when it fires after the next one)
+export function getTurnsUntil(event: ScheduledEvent, turnCount: number): number {
+  const turnsUntil = (event.offset - (turnCount % event.period) + event.period) % event.period;
+  return turnsUntil === 0 ? event.period : turnsUntil;
+}
+
+// The active events, soonest first, ties in registration order
+export function getUpcomingEvents(gameState: GameState): UpcomingEvent[] {
+  return getScheduledEvents()
+    .filter(event => event.isActive?.(gameState) ?? true)
+    .map(event => ({ event, turnsUntil: getTurnsUntil(event, gameState.turnCount) }))
+    .sort((a, b) => a.turnsUntil - b.turnsUntil);
+}
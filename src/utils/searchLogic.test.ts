@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isMateScore, searchBestMove } from './searchLogic';
+import { getLegalMoves, getMoveOptions, getSquareName, isInCheck } from './chessLogic';
+import { playMove } from './gameLogic';
+import { parsePosition } from './positionLogic';
+
+// Each has a mate in one beside slower mates, which the table must not pass off as just as quick
+const MATE_IN_ONE = [
+  '6k1/5ppp/8/8/8/8/5PPP/R5K1 w - - 0 1',
+  'k7/8/1K6/8/8/8/8/7Q w - - 0 1',
+  '7k/8/6K1/8/8/8/8/R7 w - - 0 1'
+];
+
+test('the search plays the quickest mate and scores it as one', () => {
+  MATE_IN_ONE.forEach(position => {
+    const gameState = parsePosition(position);
+    const result = searchBestMove(gameState, { maxDepth: 5, randomness: 0, timeLimitMs: 60000 });
+    assert.ok(result.move && isMateScore(result.score), position);
+
+    const { newGameState } = playMove(gameState, result.move);
+    const replies = getLegalMoves(newGameState.board, 'black', newGameState.shrunkSquares, getMoveOptions(newGameState));
+    assert.equal(replies.length, 0, `${getSquareName(result.move.from)}-${getSquareName(result.move.to)} in ${position}`);
+    assert.ok(isInCheck(newGameState.board, 'black', newGameState.shrunkSquares));
+    assert.equal(result.principalVariation.length, 1);
+  });
+});
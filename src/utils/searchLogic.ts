@@ -0,0 +1,470 @@
+import { ChessPiece, GameState, Move, PieceColor, Position, PowerUp, ShrinkBlock, TriviaTile } from '../types/chess';
+import {
+  PIECE_VALUES,
+  getPieceValue,
+  positionKey,
+  getLegalMoves,
+  isInCheck,
+  applyMoveToBoard,
+  getEnPassantTarget,
+  getMoveOptions
+} from './chessLogic';
+import { Random, createRandom } from './randomLogic';
+
+const MATE_SCORE = 100000;
+const INFINITY = 1000000;
+const MAX_PLY = 64;
+const MAX_TABLE_SIZE = 200000;
+const DEFAULT_TIME_LIMIT_MS = 1000;
+const DEFAULT_MAX_DEPTH = 6;
+
+export interface EvaluationWeights {
+  enemyMaterial: number;
+  checkBonus: number;
+  shrinkSafety: number;
+  kingCentralization: number;
+  powerUpBonus: number;
+  triviaBonus: number;
+}
+
+export const DEFAULT_WEIGHTS: EvaluationWeights = {
+  enemyMaterial: 1,
+  checkBonus: 0,
+  shrinkSafety: 1,
+  kingCentralization: 1,
+  powerUpBonus: 60,
+  triviaBonus: 0
+};
+
+export interface SearchOptions {
+  timeLimitMs?: number;
+  maxDepth?: number;
+  weights?: EvaluationWeights;
+  // Maximum random noise (centipawns) added to each root move
+  randomness?: number;
+  // Source of that noise; defaults to one derived from the game's generator
+  random?: Random;
+  // Power-up moves, like teleports and swaps, weighed alongside the legal moves at the root
+  powerUpMoves?: Move[];
+}
+
+export interface SearchResult {
+  move: Move | null;
+  score: number;
+  depth: number;
+  principalVariation: Move[];
+  nodes: number;
+}
+
+interface SearchNode {
+  board: (ChessPiece | null)[][];
+  color: PieceColor;
+  enPassantTarget: Position | null;
+}
+
+interface TableEntry {
+  depth: number;
+  score: number;
+  flag: 'exact' | 'lower' | 'upper';
+  bestMove: string | null;
+}
+
+// Static parts of the game that the search can see but not change
+interface SearchContext {
+  rootColor: PieceColor;
+  shrunkSquares: Set<string>;
+  // Shields, stuns and freezes are treated as lasting for the whole search
+  shieldedPieces: ReadonlyMap<string, number>;
+  stunnedPieces: ReadonlySet<string>;
+  shrinkBlocks: ShrinkBlock[];
+  powerUps: PowerUp[];
+  triviaTiles: TriviaTile[];
+  powerUpMoves: Move[];
+  weights: EvaluationWeights;
+  randomness: number;
+  random: Random;
+  deadline: number;
+  nodes: number;
+  stopped: boolean;
+  table: Map<string, TableEntry>;
+  killers: string[][];
+  pvTable: Move[][];
+}
+
+export function isMateScore(score: number): boolean {
+  return Math.abs(score) >= MATE_SCORE - MAX_PLY;
+}
+
+export function searchBestMove(gameState: GameState, options: SearchOptions = {}): SearchResult {
+  const timeLimitMs = options.timeLimitMs ?? DEFAULT_TIME_LIMIT_MS;
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+
+  const context: SearchContext = {
+    rootColor: gameState.currentPlayer,
+    shrunkSquares: gameState.shrunkSquares,
+    shieldedPieces: gameState.shieldedPieces,
+    stunnedPieces: getMoveOptions(gameState).stunnedPieces,
+    shrinkBlocks: gameState.shrinkBlocks,
+    powerUps: gameState.powerUps,
+    triviaTiles: gameState.triviaTiles,
+    powerUpMoves: options.powerUpMoves ?? [],
+    weights: options.weights ?? DEFAULT_WEIGHTS,
+    randomness: options.randomness ?? 0,
+    random: options.random ?? createRandom(gameState.rngState),
+    deadline: Date.now() + timeLimitMs,
+    nodes: 0,
+    stopped: false,
+    table: new Map(),
+    killers: Array.from({ length: MAX_PLY }, () => []),
+    pvTable: Array.from({ length: MAX_PLY }, () => [])
+  };
+
+  const root: SearchNode = {
+    board: gameState.board,
+    color: gameState.currentPlayer,
+    enPassantTarget: gameState.enPassantTarget
+  };
+
+  const rootMoves = [
+    ...getLegalMoves(root.board, root.color, context.shrunkSquares, {
+      enPassantTarget: root.enPassantTarget,
+      shieldedPieces: context.shieldedPieces,
+      stunnedPieces: context.stunnedPieces
+    }),
+    ...context.powerUpMoves
+  ];
+
+  const result: SearchResult = {
+    move: rootMoves[0] || null,
+    score: 0,
+    depth: 0,
+    principalVariation: rootMoves[0] ? [rootMoves[0]] : [],
+    nodes: 0
+  };
+
+  if (rootMoves.length <= 1) {
+    return result;
+  }
+
+  // Iterative deepening: each completed depth refines the move ordering of the next
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    const score = negamax(root, depth, 0, -INFINITY, INFINITY, context);
+
+    if (context.stopped) break;
+
+    const principalVariation = [...context.pvTable[0]];
+    if (principalVariation.length > 0) {
+      result.move = principalVariation[0];
+      result.principalVariation = principalVariation;
+      result.score = score;
+      result.depth = depth;
+    }
+
+    // A forced mate will not get any better by searching deeper
+    if (isMateScore(score)) break;
+  }
+
+  result.nodes = context.nodes;
+  return result;
+}
+
+function negamax(
+  node: SearchNode,
+  depth: number,
+  ply: number,
+  alpha: number,
+  beta: number,
+  context: SearchContext
+): number {
+  context.pvTable[ply] = [];
+
+  if (shouldStop(context)) return 0;
+
+  if (depth <= 0 || ply >= MAX_PLY - 1) {
+    return quiescence(node, ply, alpha, beta, context);
+  }
+
+  const key = getNodeKey(node);
+  const entry = context.table.get(key);
+  if (entry && entry.depth >= depth && ply > 0) {
+    const tableScore = fromTableScore(entry.score, ply);
+    if (entry.flag === 'exact') return tableScore;
+    if (entry.flag === 'lower' && tableScore >= beta) return tableScore;
+    if (entry.flag === 'upper' && tableScore <= alpha) return tableScore;
+  }
+
+  const moves = getLegalMoves(node.board, node.color, context.shrunkSquares, {
+    enPassantTarget: node.enPassantTarget,
+    shieldedPieces: context.shieldedPieces,
+    stunnedPieces: context.stunnedPieces
+  });
+  if (ply === 0) {
+    moves.push(...context.powerUpMoves);
+  }
+
+  if (moves.length === 0) {
+    return isInCheck(node.board, node.color, context.shrunkSquares) ? -MATE_SCORE + ply : 0;
+  }
+
+  orderMoves(moves, entry?.bestMove ?? null, context.killers[ply]);
+
+  const originalAlpha = alpha;
+  let bestScore = -INFINITY;
+  let bestMove: Move | null = null;
+
+  for (const move of moves) {
+    // Root noise and the power-up's cost shift the score, so the child is searched
+    // against an equally shifted window; otherwise a bound could pass for a score
+    const adjustment = ply === 0 ? getRootAdjustment(move, context) : 0;
+    const score = adjustment - negamax(
+      makeSearchMove(node, move), depth - 1, ply + 1, adjustment - beta, adjustment - alpha, context
+    );
+
+    if (context.stopped) return 0;
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestMove = move;
+    }
+
+    if (score > alpha) {
+      alpha = score;
+      context.pvTable[ply] = [move, ...context.pvTable[ply + 1]];
+    }
+
+    if (alpha >= beta) {
+      if (!move.captured) {
+        storeKiller(context.killers[ply], getMoveKey(move));
+      }
+      break;
+    }
+  }
+
+  const flag = bestScore <= originalAlpha ? 'upper' : bestScore >= beta ? 'lower' : 'exact';
+  storeEntry(context, key, {
+    depth,
+    score: toTableScore(bestScore, ply),
+    flag,
+    bestMove: bestMove ? getMoveKey(bestMove) : null
+  });
+
+  return bestScore;
+}
+
+// Only resolves captures and promotions so the static evaluation is never taken mid-exchange
+function quiescence(
+  node: SearchNode,
+  ply: number,
+  alpha: number,
+  beta: number,
+  context: SearchContext
+): number {
+  if (shouldStop(context)) return 0;
+
+  const standPat = evaluateSearchPosition(node.board, node.color, context);
+  if (standPat >= beta || ply >= MAX_PLY - 1) return standPat;
+  if (standPat > alpha) alpha = standPat;
+
+  const moves = getLegalMoves(node.board, node.color, context.shrunkSquares, {
+    enPassantTarget: node.enPassantTarget,
+    shieldedPieces: context.shieldedPieces,
+    stunnedPieces: context.stunnedPieces
+  }).filter(move => move.captured || move.promotion === 'queen');
+
+  orderMoves(moves, null, []);
+
+  for (const move of moves) {
+    const score = -quiescence(makeSearchMove(node, move), ply + 1, -beta, -alpha, context);
+
+    if (context.stopped) return 0;
+
+    if (score >= beta) return score;
+    if (score > alpha) alpha = score;
+  }
+
+  return alpha;
+}
+
+function getRootAdjustment(move: Move, context: SearchContext): number {
+  let adjustment = context.randomness > 0 ? context.random.next() * context.randomness : 0;
+
+  // A power-up move spends the power-up, which is worth as much as picking up a power-up
+  if (move.usedPowerUp) {
+    adjustment -= context.weights.powerUpBonus;
+  }
+
+  return adjustment;
+}
+
+function shouldStop(context: SearchContext): boolean {
+  context.nodes++;
+
+  // Checking the clock on every node is wasteful
+  if ((context.nodes & 255) === 0 && Date.now() >= context.deadline) {
+    context.stopped = true;
+  }
+
+  return context.stopped;
+}
+
+function makeSearchMove(node: SearchNode, move: Move): SearchNode {
+  return {
+    board: applyMoveToBoard(node.board, move),
+    color: node.color === 'white' ? 'black' : 'white',
+    enPassantTarget: getEnPassantTarget(move)
+  };
+}
+
+function orderMoves(moves: Move[], tableMove: string | null, killers: string[]): void {
+  const scores = new Map<Move, number>();
+
+  for (const move of moves) {
+    const key = getMoveKey(move);
+    let score = 0;
+
+    if (key === tableMove) {
+      score = 1000000;
+    } else if (move.captured) {
+      // MVV-LVA: most valuable victim first, least valuable attacker breaks ties
+      score = 100000 + getPieceValue(move.captured) * 100 - getPieceValue(move.piece);
+    } else if (move.promotion) {
+      score = 90000 + PIECE_VALUES[move.promotion];
+    } else if (killers.includes(key)) {
+      score = 80000 - killers.indexOf(key);
+    }
+
+    scores.set(move, score);
+  }
+
+  moves.sort((a, b) => (scores.get(b) || 0) - (scores.get(a) || 0));
+}
+
+function storeKiller(killers: string[], moveKey: string): void {
+  if (killers[0] === moveKey) return;
+  killers.unshift(moveKey);
+  killers.length = Math.min(killers.length, 2);
+}
+
+// Mate scores count plies from the root, but a stored position can be reached at any
+// ply, so the table keeps them as the distance to mate from the position itself
+function toTableScore(score: number, ply: number): number {
+  if (!isMateScore(score)) return score;
+  return score > 0 ? score + ply : score - ply;
+}
+
+function fromTableScore(score: number, ply: number): number {
+  if (!isMateScore(score)) return score;
+  return score > 0 ? score - ply : score + ply;
+}
+
+function storeEntry(context: SearchContext, key: string, entry: TableEntry): void {
+  if (context.table.size >= MAX_TABLE_SIZE) {
+    context.table.clear();
+  }
+  context.table.set(key, entry);
+}
+
+function getMoveKey(move: Move): string {
+  return `${move.from.row}${move.from.col}${move.to.row}${move.to.col}${move.promotion || ''}`;
+}
+
+function getNodeKey(node: SearchNode): string {
+  let key = node.color === 'white' ? 'w' : 'b';
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = node.board[row][col];
+      if (!piece) {
+        key += '.';
+      } else {
+        // Unmoved kings and rooks carry castling rights, so they hash differently
+        const code = piece.type === 'knight' ? 'n' : piece.type[0];
+        // Fused pieces move differently from their base type, so they hash differently too
+        key += (piece.color === 'white' ? code.toUpperCase() : code) + (piece.hasMoved ? '' : '*') +
+          (piece.fusionMoves ? `+${piece.fusionMoves.join('+')}` : '');
+      }
+    }
+  }
+
+  if (node.enPassantTarget) {
+    key += positionKey(node.enPassantTarget);
+  }
+
+  return key;
+}
+
+// Static evaluation in centipawns from the point of view of `color`. Personality
+// weights are one-sided, so the score is built for the searching side and negated
+// for its opponent to keep the search zero-sum.
+function evaluateSearchPosition(
+  board: (ChessPiece | null)[][],
+  color: PieceColor,
+  context: SearchContext
+): number {
+  const { rootColor, weights } = context;
+  let score = 0;
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (!piece) continue;
+
+      const value = evaluatePiece(piece, { row, col }, context);
+      score += piece.color === rootColor ? value : -value * weights.enemyMaterial;
+    }
+  }
+
+  if (weights.checkBonus > 0) {
+    const opponentColor = rootColor === 'white' ? 'black' : 'white';
+    if (isInCheck(board, opponentColor, context.shrunkSquares)) {
+      score += weights.checkBonus;
+    }
+  }
+
+  return color === rootColor ? score : -score;
+}
+
+function evaluatePiece(piece: ChessPiece, position: Position, context: SearchContext): number {
+  const { weights } = context;
+  const material = getPieceValue(piece) * 100;
+  let score = material;
+
+  const centerDistance = Math.abs(3.5 - position.row) + Math.abs(3.5 - position.col);
+
+  if (piece.type === 'pawn') {
+    const advancement = piece.color === 'white' ? 6 - position.row : position.row - 1;
+    const fileCentrality = 3.5 - Math.abs(3.5 - position.col);
+    score += advancement * (4 + fileCentrality * 3);
+  } else if (piece.type === 'king') {
+    // Kings caught on the rim are the first to be squeezed by the shrink
+    score -= centerDistance * 4 * weights.kingCentralization;
+  } else {
+    score += (7 - centerDistance) * 4;
+  }
+
+  const block = context.shrinkBlocks.find(
+    b => b.position.row === position.row && b.position.col === position.col
+  );
+  if (block) {
+    score -= getShrinkPenalty(piece, material, block.turnsUntilShrink) * weights.shrinkSafety;
+  }
+
+  if (context.powerUps.some(p => p.position.row === position.row && p.position.col === position.col)) {
+    score += weights.powerUpBonus;
+  }
+
+  if (context.triviaTiles.some(t => t.position.row === position.row && t.position.col === position.col)) {
+    score += weights.triviaBonus;
+  }
+
+  return score;
+}
+
+function getShrinkPenalty(piece: ChessPiece, material: number, turnsUntilShrink: number): number {
+  // Kings get teleported rather than lost, everything else falls off the board
+  const stake = piece.type === 'king' ? 150 : material;
+
+  if (turnsUntilShrink <= 1) return stake * 0.9;
+  if (turnsUntilShrink <= 3) return stake * 0.5;
+  return stake * 0.25;
+}
@@ -1,99 +1,108 @@
-import { GameState, Position, ShrinkBlock, ChessPiece } from '../types/chess';
-import { positionKey } from './chessLogic';
+import { GameState, PieceColor, Position, ShrinkWave, VoidPiece } from '../types/chess';
+import { isSquareAttacked, parseSquareName, positionKey } from './chessLogic';
+import { Random, withRandom } from './randomLogic';
+import { createRespawnQueue } from './respawnLogic';
+import { getTurnsUntil, isEventDue, registerScheduledEvent } from './scheduleLogic';
+import { drawShrinkWave, getEdgeSquares, getShrinkPattern, getSuddenDeathSquares } from './shrinkPatternRegistry';
 import { playSound } from './soundEffects';
 
-export function shouldGenerateShrinkBlocks(turnCount: number): boolean {
-  // Generate shrink blocks every 16 turns, with warnings 3 turns before
-  return turnCount > 0 && turnCount % 16 === 13;
+// Turns between shrink waves, and how many of them a wave is warned about
+const SHRINK_CYCLE = 16;
+const SHRINK_WARNING_TURNS = 3;
+
+// A wave is drawn and warned about on one turn and falls on the last turn of its cycle
+export const SHRINK_WARNING_EVENT = registerScheduledEvent({
+  id: 'shrink-warning',
+  label: 'Shrink warning',
+  icon: '⚠️',
+  period: SHRINK_CYCLE,
+  offset: SHRINK_CYCLE - SHRINK_WARNING_TURNS,
+  isActive: gameState => gameState.shrinkBlocks.length === 0 && getUpcomingShrinkSquares(gameState).length > 0
+});
+
+export const SHRINK_EVENT = registerScheduledEvent({
+  id: 'shrink',
+  label: 'Board shrinks',
+  icon: '💥',
+  period: SHRINK_CYCLE,
+  offset: 0,
+  isActive: gameState => gameState.shrinkBlocks.length > 0 || getUpcomingShrinkSquares(gameState).length > 0
+});
+
+// Squares already shrunk or warned about, which no later wave can take again
+function getGoneSquares(gameState: GameState): Set<string> {
+  return new Set([
+    ...gameState.shrunkSquares,
+    ...gameState.shrinkBlocks.map(block => positionKey(block.position))
+  ]);
 }
 
-export function generateShrinkBlocks(gameState: GameState): ShrinkBlock[] {
-  const blocks: ShrinkBlock[] = [];
-  const shrinkLevel = Math.floor(gameState.turnCount / 16);
-  
-  if (shrinkLevel >= 3) return blocks; // Max shrink level reached
-  
-  // Generate 2x2 blocks from outer edges
-  const blockPositions = getShrinkBlockPositions(shrinkLevel);
-  
-  blockPositions.forEach((pos) => {
-    blocks.push({
-      position: pos,
-      turnsUntilShrink: 3, // 3 turns warning before shrink
-      isWarning: true
-    });
-  });
-  
-  return blocks;
+function getPatternWave(gameState: GameState, wave: number): ShrinkWave | undefined {
+  return getShrinkPattern(gameState.shrinkPattern)?.waves[wave];
 }
 
-function getShrinkBlockPositions(level: number): Position[] {
-  const positions: Position[] = [];
-  
-  // Less harsh shrinking: shrink individual squares from edges
-  if (level === 0) {
-    // First level: shrink outer corners and some edge squares
-    positions.push({ row: 0, col: 0 });
-    positions.push({ row: 0, col: 7 });
-    positions.push({ row: 7, col: 0 });
-    positions.push({ row: 7, col: 7 });
-    positions.push({ row: 0, col: 1 });
-    positions.push({ row: 1, col: 0 });
-    positions.push({ row: 0, col: 6 });
-    positions.push({ row: 1, col: 7 });
-    positions.push({ row: 6, col: 0 });
-    positions.push({ row: 7, col: 1 });
-    positions.push({ row: 7, col: 6 });
-    positions.push({ row: 6, col: 7 });
-  } else if (level === 1) {
-    // Second level: shrink more edge squares
-    positions.push({ row: 0, col: 2 });
-    positions.push({ row: 0, col: 3 });
-    positions.push({ row: 0, col: 4 });
-    positions.push({ row: 0, col: 5 });
-    positions.push({ row: 2, col: 0 });
-    positions.push({ row: 3, col: 0 });
-    positions.push({ row: 4, col: 0 });
-    positions.push({ row: 5, col: 0 });
-    positions.push({ row: 7, col: 2 });
-    positions.push({ row: 7, col: 3 });
-    positions.push({ row: 7, col: 4 });
-    positions.push({ row: 7, col: 5 });
-    positions.push({ row: 2, col: 7 });
-    positions.push({ row: 3, col: 7 });
-    positions.push({ row: 4, col: 7 });
-    positions.push({ row: 5, col: 7 });
-  } else if (level === 2) {
-    // Third level: shrink remaining outer ring
-    positions.push({ row: 1, col: 1 });
-    positions.push({ row: 1, col: 2 });
-    positions.push({ row: 1, col: 3 });
-    positions.push({ row: 1, col: 4 });
-    positions.push({ row: 1, col: 5 });
-    positions.push({ row: 1, col: 6 });
-    positions.push({ row: 2, col: 1 });
-    positions.push({ row: 3, col: 1 });
-    positions.push({ row: 4, col: 1 });
-    positions.push({ row: 5, col: 1 });
-    positions.push({ row: 6, col: 1 });
-    positions.push({ row: 6, col: 2 });
-    positions.push({ row: 6, col: 3 });
-    positions.push({ row: 6, col: 4 });
-    positions.push({ row: 6, col: 5 });
-    positions.push({ row: 6, col: 6 });
-    positions.push({ row: 2, col: 6 });
-    positions.push({ row: 3, col: 6 });
-    positions.push({ row: 4, col: 6 });
-    positions.push({ row: 5, col: 6 });
+// The turn the pattern's last wave lands. From then on the game is in sudden death
+// (gamePhase 'shrinking'): each cycle takes the outermost ring still standing, down
+// to a 2x2 (or smaller) arena and finally to a single random square.
+export function getSuddenDeathStart(shrinkPattern: string): number {
+  return SHRINK_CYCLE * (getShrinkPattern(shrinkPattern)?.waves.length ?? 0);
+}
+
+function drawWave(gameState: GameState, wave: number, random: Random): Position[] {
+  const gone = getGoneSquares(gameState);
+  const patternWave = getPatternWave(gameState, wave);
+  if (patternWave) return drawShrinkWave(patternWave, gone, random);
+
+  const squares = getSuddenDeathSquares(gone);
+  // Only the final arena is taken whole, and one square of it survives
+  if (squares.length + gone.size < 64) return squares;
+  const survivor = random.int(squares.length);
+  return squares.filter((_, index) => index !== survivor);
+}
+
+// Warns of the wave due in the current shrink cycle. Random waves are drawn from the
+// game's generator here, so their squares are known from the first warning.
+export function generateShrinkBlocks(gameState: GameState): GameState {
+  return withRandom(gameState, random => ({
+    ...gameState,
+    shrinkBlocks: [
+      ...gameState.shrinkBlocks,
+      ...drawWave(gameState, Math.floor(gameState.turnCount / SHRINK_CYCLE), random).map(position => ({
+        position,
+        turnsUntilShrink: SHRINK_WARNING_TURNS,
+        isWarning: true
+      }))
+    ]
+  }));
+}
+
+// What the board will lose next, before its warning goes up: the squares of a fixed
+// wave, the edge a random wave will bite from, or the ring sudden death takes next
+export function getUpcomingShrinkSquares(gameState: GameState): Position[] {
+  if (gameState.shrinkBlocks.length > 0) return [];
+  const nextWave = Math.floor((gameState.turnCount + getTurnsUntil(SHRINK_WARNING_EVENT, gameState.turnCount)) / SHRINK_CYCLE);
+  const gone = getGoneSquares(gameState);
+  const wave = getPatternWave(gameState, nextWave);
+  if (!wave) return getSuddenDeathSquares(gone);
+
+  if (wave.type === 'squares') {
+    return wave.squares.map(name => parseSquareName(name)!).filter(square => !gone.has(positionKey(square)));
   }
-  
-  return positions;
+  const edge = getEdgeSquares(gone);
+  // A mirrored bite needs the facing square to be on the edge as well
+  return wave.mirrored
+    ? edge.filter(square => edge.some(facing => facing.row === 7 - square.row && facing.col === square.col))
+    : edge;
 }
 
 export function applyShrinkBlocks(gameState: GameState): GameState {
   const newShrunkSquares = new Set(gameState.shrunkSquares);
+  const newTrapSquares = new Map(gameState.trapSquares);
+  const newRevealedTraps = new Set(gameState.revealedTraps);
   const newBoard = gameState.board.map(row => [...row]);
   const newShrinkBlocks = [...gameState.shrinkBlocks];
+  const caughtKings: Position[] = [];
+  const fallenPieces: VoidPiece[] = [];
   
   // Process blocks that are ready to shrink
   const blocksToShrink = newShrinkBlocks.filter(block => block.turnsUntilShrink <= 0);
@@ -102,33 +111,17 @@ export function applyShrinkBlocks(gameState: GameState): GameState {
     const { position } = block;
     const key = positionKey(position);
     newShrunkSquares.add(key);
+    // A trap falls off the board along with its square
+    newTrapSquares.delete(key);
+    newRevealedTraps.delete(key);
     
-    // Check if king is on this square and teleport if needed
+    // A king stays put until its owner picks an escape square
     const piece = newBoard[position.row][position.col];
     if (piece && piece.type === 'king') {
-      const safePosition = findNearestSafeSquare(newBoard, position, newShrunkSquares);
-      if (safePosition) {
-        // Teleport king to safe position
-        newBoard[safePosition.row][safePosition.col] = {
-          ...piece,
-          isTeleporting: true // Add teleport animation flag
-        };
-        newBoard[position.row][position.col] = null;
-        
-        // Play teleport sound
-        playSound('teleport');
-      } else {
-        // Emergency: No safe square found!
-        console.warn('EMERGENCY: No safe square found for king teleport!');
-        playSound('emergency');
-        // Keep king but mark as emergency
-        newBoard[position.row][position.col] = {
-          ...piece,
-          isEmergency: true
-        };
-      }
+      caughtKings.push(position);
     } else {
-      // Remove piece from shrunk square
+      // Anything else falls into the void with its square
+      if (piece) fallenPieces.push({ piece, position, turnCount: gameState.turnCount });
       newBoard[position.row][position.col] = null;
     }
   });
@@ -142,47 +135,112 @@ export function applyShrinkBlocks(gameState: GameState): GameState {
     turnsUntilShrink: block.turnsUntilShrink - 1
   }));
   
-  return {
+  if (caughtKings.length > 0) {
+    playSound('emergency');
+  }
+  
+  const shrunkState: GameState = {
     ...gameState,
     board: newBoard,
     shrunkSquares: newShrunkSquares,
-    shrinkBlocks: updatedBlocks
+    trapSquares: newTrapSquares,
+    revealedTraps: newRevealedTraps,
+    shrinkBlocks: updatedBlocks,
+    pendingEvacuations: [...gameState.pendingEvacuations, ...caughtKings],
+    voidPieces: [...gameState.voidPieces, ...fallenPieces],
+    // A piece falling off the board counts like a capture for the fifty-move rule
+    halfmoveClock: fallenPieces.length > 0 ? 0 : gameState.halfmoveClock
   };
+  
+  return settleEvacuations(fallenPieces.length > 0 && gameState.voidRespawn
+    ? { ...shrunkState, respawnQueue: createRespawnQueue(shrunkState) }
+    : shrunkState);
 }
 
-function findNearestSafeSquare(
-  board: (ChessPiece | null)[][],
-  from: Position,
-  shrunkSquares: Set<string>
-): Position | null {
-  // Check adjacent squares first
-  const directions = [
-    { dr: -1, dc: 0 }, { dr: 1, dc: 0 }, { dr: 0, dc: -1 }, { dr: 0, dc: 1 },
-    { dr: -1, dc: -1 }, { dr: -1, dc: 1 }, { dr: 1, dc: -1 }, { dr: 1, dc: 1 }
-  ];
-  
-  for (const { dr, dc } of directions) {
-    const pos = { row: from.row + dr, col: from.col + dc };
-    if (isValidPosition(pos) && !shrunkSquares.has(positionKey(pos)) && !board[pos.row][pos.col]) {
-      return pos;
-    }
-  }
-  
-  // If no adjacent safe squares, search outward
-  for (let radius = 2; radius <= 7; radius++) {
+// The king that must flee before anything else happens, with the squares it may pick
+export interface Evacuation {
+  from: Position;
+  color: PieceColor;
+  squares: Position[];
+}
+
+export function getPendingEvacuation(gameState: GameState): Evacuation | null {
+  const [from] = gameState.pendingEvacuations;
+  const king = from ? gameState.board[from.row][from.col] : null;
+  if (!from || !king) return null;
+  return { from, color: king.color, squares: getEscapeSquares(gameState, from) };
+}
+
+// Where a king caught on `from` may flee: the empty squares the enemy does not
+// attack once the king has left, taken from the nearest ring around it that has any
+function getEscapeSquares(gameState: GameState, from: Position): Position[] {
+  const king = gameState.board[from.row][from.col];
+  if (!king) return [];
+  const board = gameState.board.map(row => [...row]);
+  board[from.row][from.col] = null;
+  const enemy = king.color === 'white' ? 'black' : 'white';
+
+  for (let radius = 1; radius <= 7; radius++) {
+    const squares: Position[] = [];
     for (let dr = -radius; dr <= radius; dr++) {
       for (let dc = -radius; dc <= radius; dc++) {
-        if (Math.abs(dr) === radius || Math.abs(dc) === radius) {
-          const pos = { row: from.row + dr, col: from.col + dc };
-          if (isValidPosition(pos) && !shrunkSquares.has(positionKey(pos)) && !board[pos.row][pos.col]) {
-            return pos;
-          }
+        if (Math.abs(dr) !== radius && Math.abs(dc) !== radius) continue;
+        const pos = { row: from.row + dr, col: from.col + dc };
+        if (
+          isValidPosition(pos) &&
+          !gameState.shrunkSquares.has(positionKey(pos)) &&
+          !board[pos.row][pos.col] &&
+          !isSquareAttacked(board, pos, enemy, gameState.shrunkSquares)
+        ) {
+          squares.push(pos);
         }
       }
     }
+    if (squares.length > 0) return squares;
   }
   
-  return null;
+  return [];
+}
+
+// Moves the first caught king to one of its escape squares, or returns the state
+// unchanged when the square is not one of them
+export function evacuateKing(gameState: GameState, to: Position): GameState {
+  const evacuation = getPendingEvacuation(gameState);
+  if (!evacuation || !evacuation.squares.some(square => square.row === to.row && square.col === to.col)) {
+    return gameState;
+  }
+
+  const { from } = evacuation;
+  const newBoard = gameState.board.map(row => [...row]);
+  newBoard[to.row][to.col] = { ...newBoard[from.row][from.col]!, isTeleporting: true };
+  newBoard[from.row][from.col] = null;
+  playSound('teleport');
+
+  return settleEvacuations({
+    ...gameState,
+    board: newBoard,
+    pendingEvacuations: gameState.pendingEvacuations.slice(1)
+  });
+}
+
+// With nowhere safe left to flee, a caught king falls with its square, and
+// checkGameOver settles the game. The next king in line is only checked once the
+// one before it has fled, since that can close or open its escapes.
+function settleEvacuations(gameState: GameState): GameState {
+  const evacuation = getPendingEvacuation(gameState);
+  if (!evacuation || evacuation.squares.length > 0) return gameState;
+
+  const { from } = evacuation;
+  const newBoard = gameState.board.map(row => [...row]);
+  newBoard[from.row][from.col] = null;
+  playSound('emergency');
+
+  return settleEvacuations({
+    ...gameState,
+    board: newBoard,
+    pendingEvacuations: gameState.pendingEvacuations.slice(1),
+    halfmoveClock: 0
+  });
 }
 
 function isValidPosition(pos: Position): boolean {
@@ -192,24 +250,14 @@ function isValidPosition(pos: Position): boolean {
 export function updateAndApplyShrinkBlocks(gameState: GameState): GameState {
   let newGameState = { ...gameState };
   const currentTurn = newGameState.turnCount;
-  const shrinkCycle = 16; // New 16-turn cycle
-  const cyclePosition = currentTurn % shrinkCycle;
-  const shrinkLevel = Math.floor(currentTurn / shrinkCycle);
 
   // Generate warning blocks 3 turns before shrink (turn 13 of each 16-turn cycle)
   let blocks = [...newGameState.shrinkBlocks];
   
-  if (cyclePosition === 13 && shrinkLevel < 3) {
+  if (isEventDue(SHRINK_WARNING_EVENT, currentTurn)) {
     // Generate new warning blocks for this cycle
-    const newBlocks = generateShrinkBlocks({
-      ...newGameState,
-      turnCount: shrinkLevel * shrinkCycle // Use shrink level for block generation
-    });
-    blocks = newBlocks.map(block => ({ 
-      ...block, 
-      turnsUntilShrink: 3, // 3 turns warning
-      isWarning: true 
-    }));
+    newGameState = generateShrinkBlocks({ ...newGameState, shrinkBlocks: [] });
+    blocks = newGameState.shrinkBlocks;
   } else if (blocks.length > 0) {
     // Decrement existing blocks countdown
     blocks = blocks.map(block => ({
@@ -231,6 +279,9 @@ export function updateAndApplyShrinkBlocks(gameState: GameState): GameState {
 
   return {
     ...newGameState,
+    gamePhase: newGameState.gamePhase === 'playing' && currentTurn >= getSuddenDeathStart(newGameState.shrinkPattern)
+      ? 'shrinking'
+      : newGameState.gamePhase,
     shrinkBlocks: blocks
   };
 }
@@ -0,0 +1,235 @@
+import { Position, ShrinkPattern, ShrinkWave } from '../types/chess';
+import { isValidPosition, parseSquareName, positionKey } from './chessLogic';
+import { Random } from './randomLogic';
+
+// The pattern every game used before patterns could be chosen; records and
+// positions that name no pattern play by it
+export const DEFAULT_SHRINK_PATTERN_ID = 'classic';
+
+// However a pattern is drawn, at least this many squares stay on the board
+const MIN_REMAINING_SQUARES = 4;
+
+const KING_STEPS = [
+  { dr: -1, dc: -1 }, { dr: -1, dc: 0 }, { dr: -1, dc: 1 }, { dr: 0, dc: -1 },
+  { dr: 0, dc: 1 }, { dr: 1, dc: -1 }, { dr: 1, dc: 0 }, { dr: 1, dc: 1 }
+];
+
+// Every shrink pattern players can pick, in registration order. Patterns are plain
+// data, and registerShrinkPattern refuses one that could ever wall a king in on a
+// square with nowhere to step.
+const registry = new Map<string, ShrinkPattern>();
+
+function getNeighbours(square: Position): Position[] {
+  return KING_STEPS
+    .map(({ dr, dc }) => ({ row: square.row + dr, col: square.col + dc }))
+    .filter(isValidPosition);
+}
+
+function getRemainingSquares(gone: Set<string>): Position[] {
+  const squares: Position[] = [];
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      if (!gone.has(positionKey({ row, col }))) squares.push({ row, col });
+    }
+  }
+  return squares;
+}
+
+// A king left on a square whose neighbours are all gone could never move again
+function hasEnclosedSquare(gone: Set<string>): boolean {
+  return getRemainingSquares(gone).some(square =>
+    getNeighbours(square).every(neighbour => gone.has(positionKey(neighbour)))
+  );
+}
+
+function getWaveSize(wave: ShrinkWave): number {
+  if (wave.type === 'squares') return wave.squares.length;
+  return wave.mirrored ? wave.count * 2 : wave.count;
+}
+
+// Why the pattern could strand a king or empty the board, or null when it is sound.
+// Fixed waves are played through one after another; random bites check themselves
+// as they are drawn, so fixed squares may not follow them.
+export function validateShrinkPattern(pattern: ShrinkPattern): string | null {
+  if (pattern.waves.length === 0) return 'it has no waves';
+
+  const gone = new Set<string>();
+  let hasRandomWave = false;
+  for (const [index, wave] of pattern.waves.entries()) {
+    const label = `wave ${index + 1}`;
+    if (wave.type === 'edgeBites') {
+      if (!Number.isInteger(wave.count) || wave.count < 1) return `${label} must bite at least one square`;
+      hasRandomWave = true;
+      continue;
+    }
+
+    if (hasRandomWave) return `${label} lists fixed squares after a random wave`;
+    if (wave.squares.length === 0) return `${label} has no squares`;
+    for (const name of wave.squares) {
+      const square = parseSquareName(name);
+      if (!square) return `${label} names an unknown square "${name}"`;
+      if (gone.has(positionKey(square))) return `${label} shrinks ${name} a second time`;
+      gone.add(positionKey(square));
+    }
+    if (hasEnclosedSquare(gone)) return `${label} leaves a square with no neighbour to step to`;
+  }
+
+  const removed = pattern.waves.reduce((total, wave) => total + getWaveSize(wave), 0);
+  if (64 - removed < MIN_REMAINING_SQUARES) {
+    return `it can leave fewer than ${MIN_REMAINING_SQUARES} squares on the board`;
+  }
+  return null;
+}
+
+export function registerShrinkPattern(pattern: ShrinkPattern): void {
+  if (registry.has(pattern.id)) {
+    throw new Error(`Shrink pattern "${pattern.id}" is already registered`);
+  }
+  const problem = validateShrinkPattern(pattern);
+  if (problem) {
+    throw new Error(`Shrink pattern "${pattern.id}" is invalid: ${problem}`);
+  }
+  registry.set(pattern.id, pattern);
+}
+
+export function getShrinkPattern(id: string): ShrinkPattern | undefined {
+  return registry.get(id);
+}
+
+export function getShrinkPatterns(): ShrinkPattern[] {
+  return [...registry.values()];
+}
+
+// Remaining squares on the rim of the board or next to a square already gone
+export function getEdgeSquares(gone: Set<string>): Position[] {
+  return getRemainingSquares(gone).filter(square =>
+    getNeighbours(square).length < KING_STEPS.length ||
+    getNeighbours(square).some(neighbour => gone.has(positionKey(neighbour)))
+  );
+}
+
+// Once a pattern has run out, sudden death takes the outermost ring still standing.
+// When every square left lies on one ring, that is the final arena: all of it but
+// one square goes, and the caller picks the survivor.
+export function getSuddenDeathSquares(gone: Set<string>): Position[] {
+  const remaining = getRemainingSquares(gone);
+  if (remaining.length <= 1) return [];
+
+  const getRing = (square: Position) => Math.min(square.row, square.col, 7 - square.row, 7 - square.col);
+  const outerRing = Math.min(...remaining.map(getRing));
+  const outer = remaining.filter(square => getRing(square) === outerRing);
+  return outer.length < remaining.length ? outer : remaining;
+}
+
+// The squares a wave takes from a board missing `gone` (shrunk or already warned
+// about). Fixed squares that are gone already are skipped; random bites only take a
+// square when no king could be walled in by it and enough of the board is left.
+export function drawShrinkWave(wave: ShrinkWave, gone: Set<string>, random: Random): Position[] {
+  if (wave.type === 'squares') {
+    return wave.squares
+      .map(name => parseSquareName(name)!)
+      .filter(square => !gone.has(positionKey(square)));
+  }
+
+  // Mirrored bites are picked in black's half and repeated in white's
+  const candidates = getEdgeSquares(gone).filter(square => !wave.mirrored || square.row < 4);
+  const taken = new Set(gone);
+  const bitten: Position[] = [];
+  let bites = 0;
+  while (bites < wave.count && candidates.length > 0) {
+    const [square] = candidates.splice(random.int(candidates.length), 1);
+    const bite = wave.mirrored ? [square, { row: 7 - square.row, col: square.col }] : [square];
+    if (bite.some(part => taken.has(positionKey(part)))) continue;
+
+    const trial = new Set(taken);
+    bite.forEach(part => trial.add(positionKey(part)));
+    if (64 - trial.size < MIN_REMAINING_SQUARES || hasEnclosedSquare(trial)) continue;
+
+    bite.forEach(part => taken.add(positionKey(part)));
+    bitten.push(...bite);
+    bites++;
+  }
+  return bitten;
+}
+
+registerShrinkPattern({
+  id: 'classic',
+  name: 'Classic',
+  description: 'Corners first, then the edges, then the second ring.',
+  waves: [
+    { type: 'squares', squares: ['a8', 'h8', 'a1', 'h1', 'b8', 'a7', 'g8', 'h7', 'a2', 'b1', 'g1', 'h2'] },
+    { type: 'squares', squares: ['c8', 'd8', 'e8', 'f8', 'a6', 'a5', 'a4', 'a3', 'c1', 'd1', 'e1', 'f1', 'h6', 'h5', 'h4', 'h3'] },
+    { type: 'squares', squares: ['b7', 'c7', 'd7', 'e7', 'f7', 'g7', 'b6', 'b5', 'b4', 'b3', 'b2', 'c2', 'd2', 'e2', 'f2', 'g2', 'g6', 'g5', 'g4', 'g3'] }
+  ]
+});
+
+registerShrinkPattern({
+  id: 'rings',
+  name: 'Concentric Rings',
+  description: 'Whole rings fall in from the outside until only the centre is left.',
+  waves: [
+    { type: 'squares', squares: ['a8', 'b8', 'c8', 'd8', 'e8', 'f8', 'g8', 'h8', 'a7', 'h7', 'a6', 'h6', 'a5', 'h5', 'a4', 'h4', 'a3', 'h3', 'a2', 'h2', 'a1', 'b1', 'c1', 'd1', 'e1', 'f1', 'g1', 'h1'] },
+    { type: 'squares', squares: ['b7', 'c7', 'd7', 'e7', 'f7', 'g7', 'b6', 'g6', 'b5', 'g5', 'b4', 'g4', 'b3', 'g3', 'b2', 'c2', 'd2', 'e2', 'f2', 'g2'] },
+    { type: 'squares', squares: ['c6', 'd6', 'e6', 'f6', 'c5', 'f5', 'c4', 'f4', 'c3', 'd3', 'e3', 'f3'] }
+  ]
+});
+
+registerShrinkPattern({
+  id: 'spiral',
+  name: 'Spiral',
+  description: 'The board is eaten eight squares at a time, clockwise from a8 and winding inwards.',
+  waves: [
+    { type: 'squares', squares: ['a8', 'b8', 'c8', 'd8', 'e8', 'f8', 'g8', 'h8'] },
+    { type: 'squares', squares: ['h7', 'h6', 'h5', 'h4', 'h3', 'h2', 'h1', 'g1'] },
+    { type: 'squares', squares: ['f1', 'e1', 'd1', 'c1', 'b1', 'a1', 'a2', 'a3'] },
+    { type: 'squares', squares: ['a4', 'a5', 'a6', 'a7', 'b7', 'c7', 'd7', 'e7'] },
+    { type: 'squares', squares: ['f7', 'g7', 'g6', 'g5', 'g4', 'g3', 'g2', 'f2'] },
+    { type: 'squares', squares: ['e2', 'd2', 'c2', 'b2', 'b3', 'b4', 'b5', 'b6'] }
+  ]
+});
+
+registerShrinkPattern({
+  id: 'edge-bites',
+  name: 'Edge Bites',
+  description: 'Eight random squares are bitten off the edge of the board each wave.',
+  waves: [
+    { type: 'edgeBites', count: 8, mirrored: false },
+    { type: 'edgeBites', count: 8, mirrored: false },
+    { type: 'edgeBites', count: 8, mirrored: false },
+    { type: 'edgeBites', count: 8, mirrored: false }
+  ]
+});
+
+registerShrinkPattern({
+  id: 'mirrored',
+  name: 'Mirrored Bites',
+  description: 'Random edge bites, each matched by the same bite on the other side of the board.',
+  waves: [
+    { type: 'edgeBites', count: 5, mirrored: true },
+    { type: 'edgeBites', count: 5, mirrored: true },
+    { type: 'edgeBites', count: 5, mirrored: true },
+    { type: 'edgeBites', count: 5, mirrored: true }
+  ]
+});
+
+registerShrinkPattern({
+  id: 'diagonal',
+  name: 'Diagonal Cuts',
+  description: 'Diagonal slices come off all four corners until a diamond is left.',
+  waves: [
+    { type: 'squares', squares: ['a8', 'h8', 'a1', 'h1', 'b8', 'g8', 'a7', 'h7', 'a2', 'h2', 'b1', 'g1'] },
+    { type: 'squares', squares: ['c8', 'f8', 'b7', 'g7', 'a6', 'h6', 'a3', 'h3', 'b2', 'g2', 'c1', 'f1'] },
+    { type: 'squares', squares: ['d8', 'e8', 'c7', 'f7', 'b6', 'g6', 'a5', 'h5', 'a4', 'h4', 'b3', 'g3', 'c2', 'f2', 'd1', 'e1'] }
+  ]
+});
+
+registerShrinkPattern({
+  id: 'islands',
+  name: 'Islands',
+  description: 'The centre caves in and the board splits into four islands.',
+  waves: [
+    { type: 'squares', squares: ['d5', 'e5', 'd4', 'e4'] },
+    { type: 'squares', squares: ['a5', 'b5', 'c5', 'f5', 'g5', 'h5', 'a4', 'b4', 'c4', 'f4', 'g4', 'h4'] },
+    { type: 'squares', squares: ['d8', 'e8', 'd7', 'e7', 'd6', 'e6', 'd3', 'e3', 'd2', 'e2', 'd1', 'e1'] }
+  ]
+});
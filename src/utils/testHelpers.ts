@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { ChessPiece, GameState, Position } from '../types/chess';
+import { getLegalMoves, getMoveOptions, getSquareName, parseSquareName } from './chessLogic';
+import { playMove } from './gameLogic';
+import { parsePosition } from './positionLogic';
+
+// Shared by the unit tests, which set positions up in the position notation and
+// name squares the way players do
+
+export function square(name: string): Position {
+  const position = parseSquareName(name);
+  assert.ok(position, `${name} is not a square`);
+  return position;
+}
+
+export function pieceAt(gameState: GameState, name: string): ChessPiece | null {
+  const { row, col } = square(name);
+  return gameState.board[row][col];
+}
+
+// Plays the legal move of the side to move between two squares, with every mechanic it sets off
+export function play(gameState: GameState, from: string, to: string): GameState {
+  const move = getLegalMoves(gameState.board, gameState.currentPlayer, gameState.shrunkSquares, getMoveOptions(gameState))
+    .find(candidate => getSquareName(candidate.from) === from && getSquareName(candidate.to) === to);
+  assert.ok(move, `${from}-${to} should be legal`);
+  return playMove(gameState, move).newGameState;
+}
+
+// Sets up a position and plays a line of moves, each written as "e2-e4"
+export function playLine(position: string, moves: string[]): GameState {
+  return moves.reduce((gameState, line) => {
+    const [from, to] = line.split('-');
+    return play(gameState, from, to);
+  }, parsePosition(position));
+}
@@ -0,0 +1,19 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { pieceAt, playLine } from './testHelpers';
+
+// Both pieces have stood still for seven turns, so the fusion on turn 18 can take them
+const IDLE_PAIR = '4k3/8/8/8/8/3BN3/7P/4K3 w - - 0 1 BR1 turn:17 idle:d3=7,e3=7';
+
+test('idle neighbours fuse when the fusion comes round', () => {
+  const gameState = playLine(IDLE_PAIR, ['h2-h3']);
+  assert.deepEqual(pieceAt(gameState, 'd3')?.fusionMoves, ['knight']);
+  assert.equal(pieceAt(gameState, 'e3'), null);
+});
+
+test('a piece that just moved is no longer idle and cannot fuse', () => {
+  const gameState = playLine(IDLE_PAIR, ['e3-c2']);
+  assert.equal(pieceAt(gameState, 'c2')?.type, 'knight');
+  assert.equal(pieceAt(gameState, 'c2')?.turnsWithoutMoving, 1);
+  assert.equal(pieceAt(gameState, 'd3')?.fusionMoves, undefined);
+});
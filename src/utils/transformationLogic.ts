@@ -1,14 +1,28 @@
 import { GameState, ChessPiece, Position, PieceType, PieceColor } from '../types/chess';
 import { playSound } from './soundEffects';
+import { Random, withRandom } from './randomLogic';
+import { isEventDue, registerScheduledEvent } from './scheduleLogic';
+
+// Only allow transformations every 12 turns to make them special events
+export const TRANSFORMATION_EVENT = registerScheduledEvent({
+  id: 'transformation',
+  label: 'Idle pawns transform',
+  icon: '⭐',
+  period: 12,
+  offset: 0
+});
 
 export function processPieceTransformations(gameState: GameState): GameState {
-  const newBoard = gameState.board.map(row => [...row]);
-  
-  // Only allow transformations every 12 turns to make them special events
-  if (gameState.turnCount % 12 !== 0 || gameState.turnCount === 0) {
+  if (!isEventDue(TRANSFORMATION_EVENT, gameState.turnCount)) {
     return gameState;
   }
   
+  return withRandom(gameState, random => transformVeteranPawns(gameState, random));
+}
+
+function transformVeteranPawns(gameState: GameState, random: Random): GameState {
+  const newBoard = gameState.board.map(row => [...row]);
+  
   // Process transformations for each color separately
   const colors: PieceColor[] = ['white', 'black'];
   
@@ -28,11 +42,10 @@ export function processPieceTransformations(gameState: GameState): GameState {
     
     // Transform only ONE random pawn per side
     if (eligiblePawns.length > 0) {
-      const randomIndex = Math.floor(Math.random() * eligiblePawns.length);
-      const { piece, position } = eligiblePawns[randomIndex];
+      const { piece, position } = random.pick(eligiblePawns);
       
       // Weighted transformation probabilities
-      const transformationType = getWeightedTransformation();
+      const transformationType = getWeightedTransformation(random);
       
       newBoard[position.row][position.col] = {
         ...piece,
@@ -52,7 +65,7 @@ export function processPieceTransformations(gameState: GameState): GameState {
   };
 }
 
-function getWeightedTransformation(): PieceType {
+function getWeightedTransformation(random: Random): PieceType {
   const transformations = [
     { type: 'knight' as PieceType, weight: 40 },  // 40% chance
     { type: 'bishop' as PieceType, weight: 30 },  // 30% chance  
@@ -61,11 +74,11 @@ function getWeightedTransformation(): PieceType {
   ];
   
   const totalWeight = transformations.reduce((sum, t) => sum + t.weight, 0);
-  let random = Math.random() * totalWeight;
+  let roll = random.next() * totalWeight;
   
   for (const transformation of transformations) {
-    random -= transformation.weight;
-    if (random <= 0) {
+    roll -= transformation.weight;
+    if (roll <= 0) {
       return transformation.type;
     }
   }
@@ -74,6 +87,102 @@ function getWeightedTransformation(): PieceType {
 }
 
 
+// Six turns after each transformation, pieces that have stood side by side fuse
+export const FUSION_EVENT = registerScheduledEvent({
+  id: 'fusion',
+  label: 'Idle pieces fuse',
+  icon: '🔗',
+  period: 12,
+  offset: 6
+});
+
+// Turns both pieces must have stood still before they fuse
+export const FUSION_IDLE_TURNS = 8;
+
+// Every fusion there is. A slider takes in a knight's leap, the one move no slider
+// has; the fused piece keeps the slider's type and lists the knight in fusionMoves.
+const FUSIONS: { type: PieceType; absorbs: PieceType; name: string }[] = [
+  { type: 'bishop', absorbs: 'knight', name: 'Archbishop' },
+  { type: 'rook', absorbs: 'knight', name: 'Chancellor' },
+  { type: 'queen', absorbs: 'knight', name: 'Amazon' }
+];
+
+export function getFusionName(piece: ChessPiece): string | null {
+  const [absorbed] = piece.fusionMoves ?? [];
+  return FUSIONS.find(fusion => fusion.type === piece.type && fusion.absorbs === absorbed)?.name ?? null;
+}
+
+// Pieces still on their starting squares never fuse, so the opening stays chess
+function canFuse(piece: ChessPiece): boolean {
+  return !!piece.hasMoved && !piece.fusionMoves && (piece.turnsWithoutMoving || 0) >= FUSION_IDLE_TURNS;
+}
+
+export function processPieceFusions(gameState: GameState): GameState {
+  if (!isEventDue(FUSION_EVENT, gameState.turnCount)) {
+    return gameState;
+  }
+  
+  return withRandom(gameState, random => fuseIdlePieces(gameState, random));
+}
+
+// Each side fuses at most one pair, picked at random from the idle neighbours. The
+// fused piece stays on the slider's square and the knight's square empties.
+function fuseIdlePieces(gameState: GameState, random: Random): GameState {
+  const newBoard = gameState.board.map(row => [...row]);
+  const absorbedIds = new Set<string>();
+  
+  for (const color of ['white', 'black'] as PieceColor[]) {
+    const pairs: { slider: Position; knight: Position }[] = [];
+    
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const slider = newBoard[row][col];
+        if (!slider || slider.color !== color || !canFuse(slider)) continue;
+        
+        for (let dr = -1; dr <= 1; dr++) {
+          for (let dc = -1; dc <= 1; dc++) {
+            const knight = { row: row + dr, col: col + dc };
+            if (knight.row < 0 || knight.row > 7 || knight.col < 0 || knight.col > 7) continue;
+            const other = newBoard[knight.row][knight.col];
+            if (
+              other && other.color === color && canFuse(other) &&
+              FUSIONS.some(fusion => fusion.type === slider.type && fusion.absorbs === other.type)
+            ) {
+              pairs.push({ slider: { row, col }, knight });
+            }
+          }
+        }
+      }
+    }
+    
+    if (pairs.length > 0) {
+      const { slider, knight } = random.pick(pairs);
+      const piece = newBoard[slider.row][slider.col]!;
+      
+      newBoard[slider.row][slider.col] = {
+        ...piece,
+        isTransformed: true,
+        transformationType: 'fusion',
+        fusionMoves: [newBoard[knight.row][knight.col]!.type],
+        turnsWithoutMoving: 0
+      };
+      absorbedIds.add(newBoard[knight.row][knight.col]!.id);
+      newBoard[knight.row][knight.col] = null;
+      
+      playSound('powerup');
+    }
+  }
+  
+  // Shields and freezes on an absorbed knight go with it
+  return {
+    ...gameState,
+    board: newBoard,
+    shieldedPieces: new Map([...gameState.shieldedPieces].filter(([id]) => !absorbedIds.has(id))),
+    frozenPieces: new Map([...gameState.frozenPieces].filter(([id]) => !absorbedIds.has(id))),
+    stunnedPieces: new Set([...gameState.stunnedPieces].filter(id => !absorbedIds.has(id)))
+  };
+}
+
 export function updatePieceMovementCounters(gameState: GameState): GameState {
   const newBoard = gameState.board.map(row => 
     row.map(piece => {
@@ -1,5 +1,7 @@
 import { TriviaTile, Position, GameState, PieceColor } from '../types/chess';
 import { positionKey } from './chessLogic';
+import { Random, withRandom } from './randomLogic';
+import { isEventDue, registerScheduledEvent } from './scheduleLogic';
 
 const API_ENDPOINT = 'https://opentdb.com/api.php?amount=1&type=multiple&encode=base64';
 
@@ -42,33 +44,41 @@ export async function fetchTriviaQuestion(position: Position): Promise<TriviaTil
   }
 }
 
-export function spawnTriviaTiles(gameState: GameState): GameState {
-  const SPAWN_INTERVAL = 10;
+export const TRIVIA_SPAWN_EVENT = registerScheduledEvent({
+  id: 'trivia-spawn',
+  label: 'Trivia tile appears',
+  icon: '❓',
+  period: 10,
+  offset: 0
+});
 
-  if (gameState.turnCount % SPAWN_INTERVAL !== 0 || gameState.turnCount === 0) {
+export function spawnTriviaTiles(gameState: GameState): GameState {
+  if (!isEventDue(TRIVIA_SPAWN_EVENT, gameState.turnCount)) {
     return gameState;
   }
 
-  const newTriviaTiles = [...gameState.triviaTiles];
-  const position = findSafeTilePosition(gameState);
-
-  if (position) {
-    newTriviaTiles.push({
-      id: `trivia-tile-${positionKey(position)}`,
-      position,
-      question: '',
-      correctAnswer: '',
-      incorrectAnswers: [],
-    });
-  }
+  return withRandom(gameState, random => {
+    const newTriviaTiles = [...gameState.triviaTiles];
+    const position = findSafeTilePosition(gameState, random);
+
+    if (position) {
+      newTriviaTiles.push({
+        id: `trivia-tile-${positionKey(position)}`,
+        position,
+        question: '',
+        correctAnswer: '',
+        incorrectAnswers: [],
+      });
+    }
 
-  return {
-    ...gameState,
-    triviaTiles: newTriviaTiles
-  };
+    return {
+      ...gameState,
+      triviaTiles: newTriviaTiles
+    };
+  });
 }
 
-function findSafeTilePosition(gameState: GameState): Position | null {
+function findSafeTilePosition(gameState: GameState, random: Random): Position | null {
   const availableSquares: Position[] = [];
 
   for (let row = 0; row < 8; row++) {
@@ -86,5 +96,5 @@ function findSafeTilePosition(gameState: GameState): Position | null {
 
   if (availableSquares.length === 0) return null;
 
-  return availableSquares[Math.floor(Math.random() * availableSquares.length)];
+  return random.pick(availableSquares);
 }
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { getComputerAnalysis } from '../utils/gameLogic';
+import { AIWorkerRequest, AIWorkerResponse } from '../utils/aiClient';
+
+self.onmessage = (event: MessageEvent<AIWorkerRequest>) => {
+  const { requestId, gameState, settings } = event.data;
+
+  let response: AIWorkerResponse;
+  try {
+    response = { type: 'result', requestId, ...getComputerAnalysis(gameState, settings) };
+  } catch (error) {
+    response = { type: 'error', requestId, message: error instanceof Error ? error.message : String(error) };
+  }
+
+  self.postMessage(response);
+};